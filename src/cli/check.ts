@@ -0,0 +1,337 @@
+import { createLanguage, createVueLanguagePlugin } from "@vue/language-core";
+import * as path from "path";
+import * as ts from "typescript";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { TsgoBackendPool } from "../language-server/tsgo-backend-pool";
+import { mapDiagnostics } from "../language-server/tsgo-plugin-client";
+import { VirtualDocumentManager } from "../language-server/virtual-documents";
+import { VirtualFileCache } from "../language-server/virtual-file-cache";
+import { Logger } from "../utils/logger";
+import { ServerConfigManager } from "../utils/server-config";
+import {
+  normalizeFileName,
+  parseVueTsConfig,
+  readProjectReferences,
+} from "../utils/tsconfig";
+
+const logger = Logger.scope("cli");
+
+/**
+ * 检查时写入虚拟文件的目录（相对工程目录，检查结束后删除）
+ * 与语言服务器的 cacheDir 分开，清理时不影响编辑器正在使用的缓存
+ */
+const CHECK_CACHE_DIR = ".vue-tsgo/check";
+
+/**
+ * 类型检查选项
+ */
+export interface CheckOptions {
+  /** tsconfig.json 路径 */
+  project: string;
+  /** tsgo 可执行文件路径，为空则自动解析 */
+  tsgoPath?: string;
+}
+
+/**
+ * 映射回源文件后的诊断信息
+ */
+export interface CheckDiagnostic {
+  fileName: string;
+  range: {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+  };
+  severity: number;
+  code?: number | string;
+  source?: string;
+  message: string;
+  relatedInformation?: {
+    location: { uri: string; range: CheckDiagnostic["range"] };
+    message: string;
+  }[];
+}
+
+export interface CheckResult {
+  /** 参与检查的 tsconfig 文件 */
+  projects: string[];
+  /** 参与检查的源文件 */
+  fileNames: string[];
+  diagnostics: CheckDiagnostic[];
+}
+
+/**
+ * 对整个工程进行类型检查
+ * 与语言服务器共用同一套桥接：Volar 生成虚拟代码，TSGo 给出诊断，再映射回 .vue
+ * 虚拟文件只在内存中时 TSGo 无法解析 ./X.vue 导入，这里与 writeVirtualFiles 一样将其写入磁盘，
+ * 并通过缓存目录中生成的 tsconfig 检查所有文件
+ */
+export async function runCheck(options: CheckOptions): Promise<CheckResult> {
+  const configFileName = path.resolve(options.project);
+  const projects = collectProjects(configFileName);
+  const projectDir = path.dirname(configFileName);
+
+  ServerConfigManager.setWorkspaceFolders([projectDir]);
+  ServerConfigManager.setConfig({
+    tsgoPath: options.tsgoPath,
+    writeVirtualFiles: true,
+    cacheDir: CHECK_CACHE_DIR,
+  });
+
+  const tsgoBackend = new TsgoBackendPool();
+  const virtualFileCache = new VirtualFileCache(tsgoBackend);
+  const virtualDocuments = new VirtualDocumentManager(
+    tsgoBackend,
+    virtualFileCache
+  );
+  // 上次检查中断时可能有残留
+  await virtualFileCache.clear();
+
+  await tsgoBackend.start();
+  if (!tsgoBackend.isRunning()) {
+    throw new Error(tsgoBackend.getLastError() ?? "TSGo 后端启动失败");
+  }
+
+  const result: CheckResult = { projects, fileNames: [], diagnostics: [] };
+
+  try {
+    for (const project of projects) {
+      const { tsconfig, language } = loadProject(project, virtualFileCache);
+      const fileNames = tsconfig.fileNames;
+
+      // 先写入工程的 tsconfig 和所有 .vue 的虚拟文件，TSGo 打开文件时即可从磁盘解析导入
+      await virtualFileCache.writeTsConfig(project, tsconfig);
+      for (const fileName of fileNames) {
+        const uri = URI.file(fileName);
+        if (isVueFile(language, uri)) {
+          await virtualDocuments.materialize(language, uri);
+        }
+      }
+
+      for (const fileName of fileNames) {
+        if (result.fileNames.includes(fileName)) {
+          continue;
+        }
+        result.fileNames.push(fileName);
+
+        const uri = URI.file(fileName);
+        if (isVueFile(language, uri)) {
+          await virtualDocuments.sync(language, uri);
+        } else {
+          const text = ts.sys.readFile(fileName);
+          if (text !== undefined) {
+            await tsgoBackend.syncDocument(
+              toCheckUri(virtualFileCache, fileName),
+              getLanguageId(fileName),
+              text
+            );
+          }
+        }
+      }
+
+      for (const fileName of fileNames) {
+        const diagnostics = await getDiagnostics(
+          tsgoBackend,
+          virtualDocuments,
+          virtualFileCache,
+          language,
+          fileName
+        );
+
+        for (const diagnostic of diagnostics) {
+          result.diagnostics.push({
+            fileName,
+            range: diagnostic.range,
+            severity: diagnostic.severity ?? 1,
+            code: diagnostic.code,
+            source: diagnostic.source,
+            message: diagnostic.message,
+            relatedInformation: diagnostic.relatedInformation,
+          });
+        }
+      }
+    }
+  } finally {
+    await tsgoBackend.stop();
+    await virtualFileCache.clear();
+  }
+
+  return result;
+}
+
+/**
+ * 普通文件在缓存目录中的 URI（指向源文件的符号链接），
+ * 使 TSGo 按生成的 tsconfig 检查它们，其中的 .vue 导入可以解析到虚拟文件
+ */
+function toCheckUri(virtualFileCache: VirtualFileCache, fileName: string) {
+  return URI.file(virtualFileCache.toCacheFileName(fileName)).toString();
+}
+
+/**
+ * 获取文件映射回源文件后的诊断
+ * 与编辑器中不同，请求失败时直接抛出错误，避免把失败当作没有错误
+ */
+async function getDiagnostics(
+  tsgoBackend: TsgoBackendPool,
+  virtualDocuments: VirtualDocumentManager,
+  virtualFileCache: VirtualFileCache,
+  language: ReturnType<typeof loadProject>["language"],
+  fileName: string
+): Promise<any[]> {
+  if (!isVueFile(language, URI.file(fileName))) {
+    return tsgoBackend.requestDiagnostics(
+      toCheckUri(virtualFileCache, fileName)
+    );
+  }
+
+  const document = await virtualDocuments.get(fileName);
+  if (!document) {
+    throw new Error(`无法生成 ${fileName} 的虚拟代码`);
+  }
+  return mapDiagnostics(
+    virtualDocuments,
+    document,
+    await tsgoBackend.requestDiagnostics(document.uri)
+  );
+}
+
+/**
+ * 将诊断信息格式化为 file:line:col 形式的文本
+ */
+export function formatDiagnostic(
+  diagnostic: CheckDiagnostic,
+  cwd = process.cwd()
+): string {
+  const fileName = path.relative(cwd, diagnostic.fileName);
+  const { line, character } = diagnostic.range.start;
+  const category = getCategoryName(diagnostic.severity);
+  const code =
+    typeof diagnostic.code === "number" ? ` TS${diagnostic.code}` : "";
+  return `${fileName}:${line + 1}:${character + 1} - ${category}${code}: ${
+    diagnostic.message
+  }`;
+}
+
+/**
+ * LSP DiagnosticSeverity 对应的名称
+ */
+export function getCategoryName(severity: number): string {
+  switch (severity) {
+    case 1:
+      return "error";
+    case 2:
+      return "warning";
+    case 3:
+      return "info";
+    default:
+      return "hint";
+  }
+}
+
+/**
+ * 收集 tsconfig 及其 references 引用的所有工程
+ */
+function collectProjects(
+  configFileName: string,
+  seen = new Set<string>()
+): string[] {
+  if (seen.has(configFileName)) {
+    return [];
+  }
+  seen.add(configFileName);
+
+  const projects = [configFileName];
+  for (const reference of readProjectReferences(configFileName)) {
+    projects.push(...collectProjects(reference, seen));
+  }
+  return projects;
+}
+
+/**
+ * 解析工程配置，并创建用于生成虚拟代码的 Volar Language
+ */
+function loadProject(
+  configFileName: string,
+  virtualFileCache: VirtualFileCache
+) {
+  const tsconfig = parseVueTsConfig(configFileName);
+  const { commandLine, fileNames } = tsconfig;
+
+  const language = createLanguage<URI>(
+    [
+      createVueLanguagePlugin(
+        ts,
+        commandLine.options,
+        commandLine.vueOptions,
+        // 按缓存路径生成代码，使其中的相对引用在缓存目录中有效
+        (uri) =>
+          normalizeFileName(virtualFileCache.toCacheFileName(uri.fsPath))
+      ),
+    ],
+    new Map(),
+    (uri) => {
+      const text = ts.sys.readFile(uri.fsPath);
+      if (text !== undefined) {
+        language.scripts.set(
+          uri,
+          ts.ScriptSnapshot.fromString(text),
+          getLanguageId(uri.fsPath)
+        );
+      } else {
+        language.scripts.delete(uri);
+      }
+    }
+  );
+
+  logger.debug("加载工程", {
+    configFileName,
+    fileCount: fileNames.length,
+  });
+
+  return { tsconfig, language };
+}
+
+function isVueFile(
+  language: ReturnType<typeof loadProject>["language"],
+  uri: URI
+): boolean {
+  return !!language.scripts.get(uri)?.generated;
+}
+
+function getLanguageId(fileName: string): string {
+  const ext = path.extname(fileName);
+  switch (ext) {
+    case ".vue":
+      return "vue";
+    case ".js":
+    case ".mjs":
+    case ".cjs":
+      return "javascript";
+    case ".jsx":
+      return "javascriptreact";
+    case ".tsx":
+      return "typescriptreact";
+    default:
+      return "typescript";
+  }
+}
+
+/**
+ * 读取诊断所在行的源码，用于文本输出
+ */
+export function getSourceLine(
+  diagnostic: CheckDiagnostic
+): string | undefined {
+  const text = ts.sys.readFile(diagnostic.fileName);
+  if (text === undefined) {
+    return undefined;
+  }
+  const document = TextDocument.create("", "", 0, text);
+  const line = diagnostic.range.start.line;
+  return document
+    .getText({
+      start: { line, character: 0 },
+      end: { line: line + 1, character: 0 },
+    })
+    .replace(/\r?\n$/, "");
+}
@@ -0,0 +1,147 @@
+/**
+ * 回放用的模拟 TSGo 进程
+ * 用法: node fake-tsgo.js <协议记录文件> [session 序号]
+ *
+ * 收到请求时在记录中查找同一方法（优先参数完全相同）且尚未使用的请求，返回记录的响应；
+ * 记录中紧随某条消息之后由 TSGo 主动发出的通知和请求（如诊断推送）在收到对应消息后重放
+ */
+import {
+  ProtocolTraceSession,
+  readProtocolTrace,
+  stableStringify,
+} from "../language-server/protocol-trace";
+
+interface RecordedExchange {
+  message: any;
+  /** 记录中的响应（仅请求） */
+  response?: any;
+  /** 收到该消息后 TSGo 主动发出的消息 */
+  followUps: any[];
+  used: boolean;
+}
+
+const METHOD_NOT_FOUND = -32601;
+
+function main(): void {
+  const [traceFile, sessionArg] = process.argv.slice(2);
+  if (!traceFile) {
+    process.stderr.write("用法: fake-tsgo <协议记录文件> [session 序号]\n");
+    process.exit(2);
+  }
+
+  const sessions = readProtocolTrace(traceFile);
+  const session = sessions[Number(sessionArg ?? 0)];
+  if (!session) {
+    process.stderr.write(`协议记录中没有 session ${sessionArg ?? 0}\n`);
+    process.exit(2);
+  }
+
+  const exchanges = collectExchanges(session);
+  let buffer = Buffer.alloc(0);
+
+  process.stdin.on("data", (data: Buffer) => {
+    buffer = Buffer.concat([buffer, data]);
+    let index;
+    while ((index = buffer.indexOf("\r\n\r\n")) !== -1) {
+      const header = buffer.toString("ascii", 0, index);
+      const length = Number(/Content-Length:\s*(\d+)/i.exec(header)?.[1] ?? 0);
+      if (buffer.length < index + 4 + length) {
+        break;
+      }
+      const content = buffer.toString("utf8", index + 4, index + 4 + length);
+      buffer = buffer.subarray(index + 4 + length);
+      handleMessage(exchanges, JSON.parse(content));
+    }
+  });
+}
+
+/**
+ * 将记录整理为「发送的消息 → 响应与后续消息」
+ */
+function collectExchanges(session: ProtocolTraceSession): RecordedExchange[] {
+  const exchanges: RecordedExchange[] = [];
+  const requests = new Map<number | string, RecordedExchange>();
+
+  for (const { direction, message } of session.messages) {
+    if (direction === "send") {
+      // 对 TSGo 请求的响应不需要重放
+      if (!message.method) {
+        continue;
+      }
+      const exchange: RecordedExchange = {
+        message,
+        followUps: [],
+        used: false,
+      };
+      exchanges.push(exchange);
+      if (message.id !== undefined) {
+        requests.set(message.id, exchange);
+      }
+    } else if (!message.method && requests.has(message.id)) {
+      requests.get(message.id)!.response = message;
+    } else if (message.method) {
+      exchanges[exchanges.length - 1]?.followUps.push(message);
+    }
+  }
+  return exchanges;
+}
+
+function handleMessage(exchanges: RecordedExchange[], message: any): void {
+  // 对模拟进程发出的请求的响应
+  if (!message.method) {
+    return;
+  }
+  if (message.method === "exit") {
+    process.exit(0);
+  }
+
+  const exchange = findExchange(exchanges, message);
+  if (message.id !== undefined) {
+    const response = exchange?.response;
+    send(
+      response
+        ? { ...response, id: message.id }
+        : {
+            jsonrpc: "2.0",
+            id: message.id,
+            error: {
+              code: METHOD_NOT_FOUND,
+              message: `回放记录中没有对应的请求: ${message.method}`,
+            },
+          }
+    );
+  }
+  for (const followUp of exchange?.followUps ?? []) {
+    send(followUp);
+  }
+}
+
+/**
+ * 查找尚未使用的同方法记录，参数完全相同的优先
+ */
+function findExchange(
+  exchanges: RecordedExchange[],
+  message: any
+): RecordedExchange | undefined {
+  const candidates = exchanges.filter(
+    (exchange) => !exchange.used && exchange.message.method === message.method
+  );
+  const params = stableStringify(message.params);
+  const exchange =
+    candidates.find(
+      (candidate) => stableStringify(candidate.message.params) === params
+    ) ?? candidates[0];
+  if (exchange) {
+    exchange.used = true;
+  }
+  return exchange;
+}
+
+function send(message: any): void {
+  const content = JSON.stringify(message);
+  process.stdout.write(
+    `Content-Length: ${Buffer.byteLength(content)}\r\n\r\n${content}`
+  );
+}
+
+main();
@@ -0,0 +1,346 @@
+import * as path from "path";
+import { URI } from "vscode-uri";
+import {
+  CheckDiagnostic,
+  CheckResult,
+  formatDiagnostic,
+  getCategoryName,
+  getSourceLine,
+} from "./check";
+
+export type OutputFormat = "text" | "json" | "sarif" | "junit";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "sarif", "junit"];
+
+/**
+ * 诊断统计
+ */
+export interface CheckSummary {
+  fileCount: number;
+  total: number;
+  bySeverity: Record<string, number>;
+  byFile: Record<string, Record<string, number>>;
+}
+
+const TOOL_NAME = "vue-tsgo";
+const TOOL_VERSION: string = require("../../package.json").version;
+
+/**
+ * 按指定格式输出检查结果
+ */
+export function formatResult(
+  result: CheckResult,
+  format: OutputFormat,
+  cwd = process.cwd()
+): string {
+  switch (format) {
+    case "json":
+      return formatJson(result, cwd);
+    case "sarif":
+      return formatSarif(result, cwd);
+    case "junit":
+      return formatJunit(result, cwd);
+    default:
+      return formatText(result, cwd);
+  }
+}
+
+/**
+ * 按文件和严重级别统计诊断数量
+ */
+export function summarize(result: CheckResult, cwd: string): CheckSummary {
+  const summary: CheckSummary = {
+    fileCount: result.fileNames.length,
+    total: result.diagnostics.length,
+    bySeverity: { error: 0, warning: 0, info: 0, hint: 0 },
+    byFile: {},
+  };
+
+  for (const diagnostic of result.diagnostics) {
+    const category = getCategoryName(diagnostic.severity);
+    const file = toRelativePath(diagnostic.fileName, cwd);
+    summary.bySeverity[category]++;
+    summary.byFile[file] ??= {};
+    summary.byFile[file][category] = (summary.byFile[file][category] ?? 0) + 1;
+  }
+
+  return summary;
+}
+
+/**
+ * 文本格式：file:line:col 加源码片段，以及统计信息
+ */
+function formatText(result: CheckResult, cwd: string): string {
+  let output = "";
+
+  for (const diagnostic of result.diagnostics) {
+    output += formatDiagnostic(diagnostic, cwd) + "\n";
+
+    const sourceLine = getSourceLine(diagnostic);
+    if (sourceLine !== undefined) {
+      const { start, end } = diagnostic.range;
+      const width =
+        end.line === start.line
+          ? Math.max(end.character - start.character, 1)
+          : Math.max(sourceLine.length - start.character, 1);
+      output += `\n  ${sourceLine}\n`;
+      output += `  ${" ".repeat(start.character)}${"~".repeat(width)}\n\n`;
+    }
+  }
+
+  const summary = summarize(result, cwd);
+  const errors = summary.bySeverity.error;
+  const files = Object.entries(summary.byFile).filter(
+    ([, counts]) => counts.error
+  );
+
+  if (errors === 0) {
+    output += `检查完成，${summary.fileCount} 个文件中未发现错误。\n`;
+  } else {
+    output += `发现 ${errors} 个错误，涉及 ${files.length} 个文件。\n`;
+    if (files.length > 1) {
+      output += "\n错误数  文件\n";
+      for (const [file, counts] of files) {
+        output += `${String(counts.error).padStart(6)}  ${file}\n`;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * JSON 格式：每条诊断一个对象，附带统计信息
+ */
+function formatJson(result: CheckResult, cwd: string): string {
+  return (
+    JSON.stringify(
+      {
+        version: TOOL_VERSION,
+        diagnostics: result.diagnostics.map((diagnostic) => ({
+          file: toRelativePath(diagnostic.fileName, cwd),
+          range: {
+            start: toOneBased(diagnostic.range.start),
+            end: toOneBased(diagnostic.range.end),
+          },
+          code: diagnostic.code,
+          category: getCategoryName(diagnostic.severity),
+          source: diagnostic.source,
+          messageChain: toMessageChain(diagnostic.message),
+          relatedInformation: diagnostic.relatedInformation?.map((info) => ({
+            file: toRelativePath(URI.parse(info.location.uri).fsPath, cwd),
+            range: {
+              start: toOneBased(info.location.range.start),
+              end: toOneBased(info.location.range.end),
+            },
+            message: info.message,
+          })),
+        })),
+        summary: summarize(result, cwd),
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+/**
+ * SARIF 2.1.0 格式，用于代码扫描结果上传
+ */
+function formatSarif(result: CheckResult, cwd: string): string {
+  const rules = new Map<string, { id: string; shortDescription: any }>();
+  for (const diagnostic of result.diagnostics) {
+    const ruleId = getRuleId(diagnostic);
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, {
+        id: ruleId,
+        shortDescription: { text: getRuleDescription(diagnostic) },
+      });
+    }
+  }
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            rules: [...rules.values()],
+          },
+        },
+        originalUriBaseIds: {
+          "%SRCROOT%": { uri: URI.file(cwd).toString() + "/" },
+        },
+        results: result.diagnostics.map((diagnostic) => ({
+          ruleId: getRuleId(diagnostic),
+          level: toSarifLevel(diagnostic.severity),
+          message: { text: diagnostic.message },
+          locations: [
+            toSarifLocation(diagnostic.fileName, diagnostic.range, cwd),
+          ],
+          relatedLocations: diagnostic.relatedInformation?.map((info, id) => ({
+            id,
+            ...toSarifLocation(
+              URI.parse(info.location.uri).fsPath,
+              info.location.range,
+              cwd
+            ),
+            message: { text: info.message },
+          })),
+        })),
+        properties: {
+          summary: summarize(result, cwd),
+        },
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + "\n";
+}
+
+/**
+ * JUnit XML 格式：每个文件一个 testsuite，每条诊断一个失败的 testcase
+ */
+function formatJunit(result: CheckResult, cwd: string): string {
+  const summary = summarize(result, cwd);
+  const byFile = new Map<string, CheckDiagnostic[]>();
+  for (const fileName of result.fileNames) {
+    byFile.set(fileName, []);
+  }
+  for (const diagnostic of result.diagnostics) {
+    if (!byFile.has(diagnostic.fileName)) {
+      byFile.set(diagnostic.fileName, []);
+    }
+    byFile.get(diagnostic.fileName)!.push(diagnostic);
+  }
+
+  const failures = result.diagnostics.filter((d) => d.severity <= 2).length;
+  const tests = [...byFile.values()].reduce(
+    (count, diagnostics) => count + Math.max(diagnostics.length, 1),
+    0
+  );
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+  xml += `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${failures}">\n`;
+
+  for (const [fileName, diagnostics] of byFile) {
+    const file = toRelativePath(fileName, cwd);
+    const fileFailures = diagnostics.filter((d) => d.severity <= 2).length;
+    xml += `  <testsuite name="${escapeXml(file)}" tests="${Math.max(
+      diagnostics.length,
+      1
+    )}" failures="${fileFailures}">\n`;
+
+    if (diagnostics.length === 0) {
+      xml += `    <testcase classname="${TOOL_NAME}" name="${escapeXml(
+        file
+      )}"/>\n`;
+    }
+
+    for (const diagnostic of diagnostics) {
+      const { line, character } = diagnostic.range.start;
+      const name = `${getRuleId(diagnostic)} ${file}:${line + 1}:${
+        character + 1
+      }`;
+      xml += `    <testcase classname="${TOOL_NAME}" name="${escapeXml(
+        name
+      )}" file="${escapeXml(file)}">\n`;
+      if (diagnostic.severity <= 2) {
+        xml += `      <failure type="${escapeXml(
+          getCategoryName(diagnostic.severity)
+        )}" message="${escapeXml(
+          toMessageChain(diagnostic.message)[0]
+        )}">${escapeXml(formatDiagnostic(diagnostic, cwd))}</failure>\n`;
+      } else {
+        xml += `      <system-out>${escapeXml(
+          formatDiagnostic(diagnostic, cwd)
+        )}</system-out>\n`;
+      }
+      xml += `    </testcase>\n`;
+    }
+
+    xml += `  </testsuite>\n`;
+  }
+
+  xml += `  <system-out>${escapeXml(JSON.stringify(summary))}</system-out>\n`;
+  xml += `</testsuites>\n`;
+  return xml;
+}
+
+function getRuleId(diagnostic: CheckDiagnostic): string {
+  if (typeof diagnostic.code === "number") {
+    return `TS${diagnostic.code}`;
+  }
+  return diagnostic.code !== undefined ? String(diagnostic.code) : "unknown";
+}
+
+/**
+ * 规则的通用描述：同一错误码的不同诊断消息不同，具体消息只放在 results[].message 中
+ */
+function getRuleDescription(diagnostic: CheckDiagnostic): string {
+  return typeof diagnostic.code === "number"
+    ? `TypeScript ${getRuleId(diagnostic)}`
+    : `${diagnostic.source ?? TOOL_NAME} ${getRuleId(diagnostic)}`;
+}
+
+function toSarifLevel(severity: number): string {
+  switch (severity) {
+    case 1:
+      return "error";
+    case 2:
+      return "warning";
+    default:
+      return "note";
+  }
+}
+
+function toSarifLocation(
+  fileName: string,
+  range: CheckDiagnostic["range"],
+  cwd: string
+) {
+  return {
+    physicalLocation: {
+      artifactLocation: {
+        uri: toRelativePath(fileName, cwd),
+        uriBaseId: "%SRCROOT%",
+      },
+      region: {
+        startLine: range.start.line + 1,
+        startColumn: range.start.character + 1,
+        endLine: range.end.line + 1,
+        endColumn: range.end.character + 1,
+      },
+    },
+  };
+}
+
+/**
+ * TSGo 将消息链展平为按缩进换行的文本，这里还原为数组
+ */
+function toMessageChain(message: string): string[] {
+  return message
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function toOneBased(position: { line: number; character: number }) {
+  return { line: position.line + 1, column: position.character + 1 };
+}
+
+function toRelativePath(fileName: string, cwd: string): string {
+  return path.relative(cwd, fileName).replace(/\\/g, "/");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
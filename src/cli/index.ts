@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+
+import * as path from "path";
+import { Logger } from "../utils/logger";
+import { runCheck } from "./check";
+import { formatResult, OUTPUT_FORMATS, OutputFormat } from "./formatters";
+import { formatReplayResult, runReplay } from "./replay";
+
+const USAGE = `用法: vue-tsgo check [选项]
+      vue-tsgo replay <协议记录文件> [--session <n>]
+
+选项:
+  -p, --project <path>   tsconfig.json 路径（默认: ./tsconfig.json）
+  --tsgo <path>          tsgo 可执行文件路径（默认自动解析）
+  --format <format>      输出格式: text | json | sarif | junit（默认: text）
+  --session <n>          回放的 session 序号（默认: 0）
+  --verbose              输出调试日志
+  -h, --help             显示帮助
+`;
+
+interface CliArgs {
+  command?: string;
+  /** 命令之后的位置参数（如 replay 的记录文件） */
+  files: string[];
+  project: string;
+  tsgoPath?: string;
+  format: OutputFormat;
+  session: number;
+  verbose: boolean;
+  help: boolean;
+}
+
+/**
+ * 解析命令行参数
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    files: [],
+    project: "tsconfig.json",
+    format: "text",
+    session: 0,
+    verbose: false,
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "-p":
+      case "--project":
+        args.project = requireValue(argv, ++i, arg);
+        break;
+      case "--tsgo":
+        args.tsgoPath = requireValue(argv, ++i, arg);
+        break;
+      case "--format": {
+        const format = requireValue(argv, ++i, arg) as OutputFormat;
+        if (!OUTPUT_FORMATS.includes(format)) {
+          throw new Error(
+            `不支持的输出格式: ${format}（可选: ${OUTPUT_FORMATS.join(", ")}）`
+          );
+        }
+        args.format = format;
+        break;
+      }
+      case "--session": {
+        const session = Number(requireValue(argv, ++i, arg));
+        if (!Number.isInteger(session) || session < 0) {
+          throw new Error(`无效的 session 序号: ${argv[i]}`);
+        }
+        args.session = session;
+        break;
+      }
+      case "--verbose":
+        args.verbose = true;
+        break;
+      case "-h":
+      case "--help":
+        args.help = true;
+        break;
+      default:
+        if (arg.startsWith("-")) {
+          throw new Error(`未知选项: ${arg}`);
+        }
+        if (!args.command) {
+          args.command = arg;
+        } else if (args.command === "replay" && !args.files.length) {
+          args.files.push(arg);
+        } else {
+          throw new Error(`多余的参数: ${arg}`);
+        }
+    }
+  }
+
+  return args;
+}
+
+function requireValue(argv: string[], index: number, option: string): string {
+  const value = argv[index];
+  if (value === undefined || value.startsWith("-")) {
+    throw new Error(`选项 ${option} 缺少参数`);
+  }
+  return value;
+}
+
+/**
+ * CLI 入口
+ */
+async function main(): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (args.help || !args.command) {
+    process.stdout.write(USAGE);
+    return args.help ? 0 : 2;
+  }
+
+  if (args.command !== "check" && args.command !== "replay") {
+    process.stderr.write(`未知命令: ${args.command}\n\n${USAGE}`);
+    return 2;
+  }
+
+  Logger.setLevel(args.verbose ? "debug" : "error");
+
+  if (args.command === "replay") {
+    return replay(args);
+  }
+
+  try {
+    const result = await runCheck({
+      project: path.resolve(args.project),
+      tsgoPath: args.tsgoPath,
+    });
+    process.stdout.write(formatResult(result, args.format));
+    return result.diagnostics.some((d) => d.severity === 1) ? 1 : 0;
+  } catch (error) {
+    process.stderr.write(`vue-tsgo check 失败: ${(error as Error).message}\n`);
+    return 2;
+  }
+}
+
+/**
+ * 回放协议记录，结果与记录不一致时返回 1
+ */
+async function replay(args: CliArgs): Promise<number> {
+  const [trace] = args.files;
+  if (!trace) {
+    process.stderr.write(`replay 缺少协议记录文件\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const result = await runReplay({ trace, session: args.session });
+    process.stdout.write(formatReplayResult(result));
+    return result.differences.length ? 1 : 0;
+  } catch (error) {
+    process.stderr.write(`vue-tsgo replay 失败: ${(error as Error).message}\n`);
+    return 2;
+  }
+}
+
+main().then((code) => process.exit(code));
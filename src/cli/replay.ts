@@ -0,0 +1,335 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  createLanguage,
+  createParsedCommandLine,
+  createParsedCommandLineByJson,
+  createVueLanguagePlugin,
+  Language,
+} from "@vue/language-core";
+import { createUriMap } from "@vue/language-service";
+import * as ts from "typescript";
+import { URI } from "vscode-uri";
+import {
+  MemoryTraceRecorder,
+  ProtocolTraceSession,
+  readProtocolTrace,
+  stableStringify,
+} from "../language-server/protocol-trace";
+import { TsgoBackendPool } from "../language-server/tsgo-backend-pool";
+import {
+  createTsgoPluginClient,
+  TsgoPluginClient,
+} from "../language-server/tsgo-plugin-client";
+import { VirtualDocumentManager } from "../language-server/virtual-documents";
+import { normalizeFileName } from "../utils/tsconfig";
+import { ServerConfigManager } from "../utils/server-config";
+
+/**
+ * 回放选项
+ */
+export interface ReplayOptions {
+  /** 协议记录文件（vueTsgo.protocolTrace 生成） */
+  trace: string;
+  /** 回放的 session 序号（每次启动 TSGo 为一个 session） */
+  session?: number;
+}
+
+/**
+ * 回放结果与记录不一致之处
+ * message: 桥接层发给 TSGo 的消息与记录不同；result: 插件客户端映射后的结果与记录不同
+ */
+export interface ReplayDifference {
+  kind: "message" | "result";
+  /** 在记录中的序号（从 0 开始，仅计入参与比较的消息或请求） */
+  index: number;
+  method: string;
+  expected: any;
+  actual: any;
+}
+
+export interface ReplayResult {
+  /** 回放的请求数 */
+  requests: number;
+  /** 比较的消息数 */
+  messages: number;
+  differences: ReplayDifference[];
+}
+
+/**
+ * 与运行环境相关（进程 ID、工作区路径、编辑器配置、取消时机）的消息不参与比较
+ */
+const IGNORED_METHODS = new Set([
+  "initialize",
+  "initialized",
+  "shutdown",
+  "exit",
+  "$/cancelRequest",
+  "workspace/didChangeConfiguration",
+]);
+
+/**
+ * 回放协议记录
+ * 按记录的顺序将 .vue 源码交给 VirtualDocumentManager 生成并同步虚拟代码，
+ * 通过 TsgoPluginClient 重新发起 Vue 语言服务插件的请求（模拟 TSGo 按记录返回响应），
+ * 再将映射后的结果和桥接层发给 TSGo 的消息与记录对比
+ */
+export async function runReplay(options: ReplayOptions): Promise<ReplayResult> {
+  const traceFile = path.resolve(options.trace);
+  const sessionIndex = options.session ?? 0;
+  const session = readProtocolTrace(traceFile)[sessionIndex];
+  if (!session) {
+    throw new Error(`协议记录中没有 session ${sessionIndex}`);
+  }
+  if (!session.entries.some((entry) => entry.type === "request")) {
+    throw new Error(
+      `session ${sessionIndex} 中没有插件客户端的请求记录，请使用当前版本重新记录`
+    );
+  }
+
+  // 记录可能来自其他机器，工作区不存在时不设置工作目录
+  const folder =
+    session.folder && fs.existsSync(session.folder) ? session.folder : undefined;
+  ServerConfigManager.setWorkspaceFolders(folder ? [folder] : []);
+
+  const recorder = new MemoryTraceRecorder();
+  const tsgoBackend = new TsgoBackendPool({
+    command: {
+      path: process.execPath,
+      args: [
+        path.join(__dirname, "fake-tsgo.js"),
+        traceFile,
+        String(sessionIndex),
+      ],
+    },
+    recorder,
+  });
+
+  await tsgoBackend.start();
+  if (!tsgoBackend.isRunning()) {
+    throw new Error(tsgoBackend.getLastError() ?? "模拟 TSGo 启动失败");
+  }
+
+  const virtualDocuments = new VirtualDocumentManager(tsgoBackend);
+  const client = createTsgoPluginClient(tsgoBackend, virtualDocuments);
+  const result: ReplayResult = { requests: 0, messages: 0, differences: [] };
+  try {
+    await replayInputs(
+      session,
+      folder,
+      tsgoBackend,
+      virtualDocuments,
+      client,
+      result
+    );
+  } finally {
+    await tsgoBackend.stop();
+  }
+
+  const expectedMessages = session.messages
+    .filter(
+      ({ direction, message }) => direction === "send" && isCompared(message)
+    )
+    .map(({ message }) => message);
+  const actualMessages = recorder.records.flatMap((record) =>
+    record.type === "message" &&
+    record.direction === "send" &&
+    isCompared(record.message)
+      ? [record.message]
+      : []
+  );
+  result.messages = Math.max(expectedMessages.length, actualMessages.length);
+  for (let i = 0; i < result.messages; i++) {
+    const expected = stripId(expectedMessages[i]);
+    const actual = stripId(actualMessages[i]);
+    if (stableStringify(expected) !== stableStringify(actual)) {
+      result.differences.push({
+        kind: "message",
+        index: i,
+        method: expected?.method ?? actual?.method,
+        expected: expected ?? null,
+        actual: actual ?? null,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 按记录顺序重放桥接层的输入：.vue 源码的同步与关闭、磁盘文件变化和插件客户端的请求
+ * 请求逐个执行，结果与记录中同一请求的结果对比
+ */
+async function replayInputs(
+  session: ProtocolTraceSession,
+  folder: string | undefined,
+  tsgoBackend: TsgoBackendPool,
+  virtualDocuments: VirtualDocumentManager,
+  client: TsgoPluginClient,
+  result: ReplayResult
+): Promise<void> {
+  const responses = new Map<number, any>();
+  for (const entry of session.entries) {
+    if (entry.type === "response") {
+      responses.set(entry.id, entry.result);
+    }
+  }
+
+  const sources = new ReplaySources(folder);
+  for (const entry of session.entries) {
+    switch (entry.type) {
+      case "source": {
+        const uri = URI.parse(entry.uri);
+        if (entry.text === null) {
+          sources.delete(uri);
+          await virtualDocuments.close(uri);
+        } else {
+          const language = sources.set(uri, entry.languageId, entry.text);
+          await virtualDocuments.sync(language, uri);
+        }
+        break;
+      }
+      case "message":
+        // 磁盘文件变化由编辑器转发，不经过插件客户端
+        if (
+          entry.direction === "send" &&
+          entry.message.method === "workspace/didChangeWatchedFiles"
+        ) {
+          await tsgoBackend.didChangeWatchedFiles(entry.message.params.changes);
+        }
+        break;
+      case "request": {
+        const index = result.requests++;
+        const handler = (client as Record<string, any>)[entry.method];
+        const expected = responses.has(entry.id)
+          ? responses.get(entry.id)
+          : { error: "记录中没有结果" };
+        const actual = handler
+          ? toJson(await handler(...entry.args))
+          : { error: `插件客户端没有 ${entry.method} 方法` };
+        if (stableStringify(expected) !== stableStringify(actual)) {
+          result.differences.push({
+            kind: "result",
+            index,
+            method: entry.method,
+            expected,
+            actual,
+          });
+        }
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * 回放时的 .vue 源码与 Volar Language
+ * 按源文件所在目录查找 tsconfig（不存在时使用推断工程的编译选项）生成虚拟代码，
+ * 与语言服务器一样每个 tsconfig 一个 Language
+ */
+class ReplaySources {
+  private snapshots = createUriMap<{
+    languageId: string;
+    snapshot: ts.IScriptSnapshot;
+  }>();
+  private languages = new Map<string, Language<URI>>();
+
+  constructor(private folder: string | undefined) {}
+
+  set(uri: URI, languageId: string, text: string): Language<URI> {
+    this.snapshots.set(uri, {
+      languageId,
+      snapshot: ts.ScriptSnapshot.fromString(text),
+    });
+    const tsconfig =
+      ts.findConfigFile(path.dirname(uri.fsPath), ts.sys.fileExists) ?? "";
+    let language = this.languages.get(tsconfig);
+    if (!language) {
+      language = this.createLanguage(tsconfig || undefined);
+      this.languages.set(tsconfig, language);
+    }
+    return language;
+  }
+
+  delete(uri: URI): void {
+    this.snapshots.delete(uri);
+  }
+
+  private createLanguage(tsconfig: string | undefined): Language<URI> {
+    const commandLine = tsconfig
+      ? createParsedCommandLine(ts, ts.sys, tsconfig)
+      : createParsedCommandLineByJson(
+          ts,
+          ts.sys,
+          this.folder ?? process.cwd(),
+          { compilerOptions: ServerConfigManager.getInferredCompilerOptions() }
+        );
+
+    const language: Language<URI> = createLanguage<URI>(
+      [
+        {
+          getLanguageId: (uri) => this.snapshots.get(uri)?.languageId,
+        },
+        createVueLanguagePlugin(
+          ts,
+          commandLine.options,
+          commandLine.vueOptions,
+          (uri) => normalizeFileName(uri.fsPath)
+        ),
+      ],
+      createUriMap(),
+      (uri) => {
+        const source = this.snapshots.get(uri);
+        if (source) {
+          language.scripts.set(uri, source.snapshot, source.languageId);
+        } else {
+          language.scripts.delete(uri);
+        }
+      }
+    );
+    return language;
+  }
+}
+
+/**
+ * 将回放结果格式化为文本
+ */
+export function formatReplayResult(result: ReplayResult): string {
+  const lines: string[] = [];
+  for (const difference of result.differences) {
+    const label = difference.kind === "message" ? "消息" : "结果";
+    lines.push(
+      `${label} #${difference.index} ${difference.method}`,
+      `  记录: ${JSON.stringify(difference.expected)}`,
+      `  回放: ${JSON.stringify(difference.actual)}`,
+      ""
+    );
+  }
+  lines.push(
+    `回放 ${result.requests} 个请求，比较 ${result.messages} 条消息，` +
+      (result.differences.length
+        ? `发现 ${result.differences.length} 处差异。`
+        : "与记录一致。"),
+    ""
+  );
+  return lines.join("\n");
+}
+
+function isCompared(message: any): boolean {
+  return !!message.method && !IGNORED_METHODS.has(message.method);
+}
+
+function stripId(message: any): any {
+  if (!message) {
+    return undefined;
+  }
+  const { id: _id, ...rest } = message;
+  return rest;
+}
+
+/**
+ * 结果按写入记录文件时的形式比较（去掉 undefined 字段）
+ */
+function toJson(value: any): any {
+  return JSON.parse(JSON.stringify(value ?? null));
+}
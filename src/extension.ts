@@ -1,4 +1,11 @@
-import { ExtensionContext, window, workspace } from "vscode";
+import {
+  env,
+  ExtensionContext,
+  QuickPickItem,
+  QuickPickItemKind,
+  window,
+  workspace,
+} from "vscode";
 import {
   LanguageClient,
   LanguageClientOptions,
@@ -6,17 +13,32 @@ import {
   TransportKind,
   State as ClientState,
 } from "vscode-languageclient/node";
+import type { ServerStatus } from "./language-server/vue-server";
 import { ConfigManager } from "./utils/config";
 import { Logger } from "./utils/logger";
 import * as path from "path";
 
+const logger = Logger.scope("extension");
+
 let client: LanguageClient | undefined;
 
 /**
  * 扩展激活函数 - 新的双 LSP 架构
  */
 export async function activate(context: ExtensionContext): Promise<void> {
-  Logger.log("Vue TSGo 扩展开始激活 (双 LSP 架构)");
+  Logger.setLevel(
+    workspace.getConfiguration("vueTsgo").get<string>("trace.server")
+  );
+  context.subscriptions.push(
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("vueTsgo.trace.server")) {
+        Logger.setLevel(
+          workspace.getConfiguration("vueTsgo").get<string>("trace.server")
+        );
+      }
+    })
+  );
+  logger.log("Vue TSGo 扩展开始激活 (双 LSP 架构)");
 
   try {
     // 设置扩展安装路径
@@ -25,10 +47,10 @@ export async function activate(context: ExtensionContext): Promise<void> {
     // 启动 Vue Language Server
     await startVueLanguageServer(context);
 
-    Logger.log("Vue TSGo 扩展激活完成 (双 LSP 架构)");
+    logger.log("Vue TSGo 扩展激活完成 (双 LSP 架构)");
     window.setStatusBarMessage("Vue TSGo: 已激活 (双 LSP)", 3000);
   } catch (error) {
-    Logger.error("Vue TSGo 扩展激活失败:", error);
+    logger.error("Vue TSGo 扩展激活失败:", error);
     window.showErrorMessage(`Vue TSGo 激活失败: ${String(error)}`);
   }
 }
@@ -39,7 +61,7 @@ export async function activate(context: ExtensionContext): Promise<void> {
 async function startVueLanguageServer(
   context: ExtensionContext
 ): Promise<void> {
-  Logger.log("启动 Vue Language Server");
+  logger.log("启动 Vue Language Server");
 
   // Vue Language Server 的路径
   const serverModule = path.join(
@@ -49,7 +71,7 @@ async function startVueLanguageServer(
     "server.js"
   );
 
-  Logger.debug("Vue Language Server 模块路径:", serverModule);
+  logger.debug("Vue Language Server 模块路径:", serverModule);
 
   const serverOptions: ServerOptions = {
     run: {
@@ -67,8 +89,9 @@ async function startVueLanguageServer(
     // 处理 Vue 文件
     documentSelector: [{ scheme: "file", language: "vue" }],
     synchronize: {
-      // 监听 Vue 和相关文件的变更
-      fileEvents: workspace.createFileSystemWatcher("**/*.{vue,ts,tsx,json}"),
+      // vueTsgo 配置变化时通过 workspace/didChangeConfiguration 通知服务器，
+      // 文件监听则由服务器动态注册
+      configurationSection: "vueTsgo",
     },
     outputChannel: window.createOutputChannel("Vue Language Server"),
     revealOutputChannelOn: 4 as any, // RevealOutputChannelOn.Error
@@ -76,20 +99,40 @@ async function startVueLanguageServer(
       config: {
         tsgoPath: workspace.getConfiguration("vueTsgo").get<string>("tsgoPath"),
         cacheDir: workspace.getConfiguration("vueTsgo").get<string>("cacheDir"),
+        writeVirtualFiles: workspace
+          .getConfiguration("vueTsgo")
+          .get<boolean>("writeVirtualFiles"),
+        requestTimeouts: workspace
+          .getConfiguration("vueTsgo")
+          .get<Record<string, number>>("requestTimeouts"),
+        inlayHints: workspace.getConfiguration("vueTsgo").get("inlayHints"),
+        trace: workspace.getConfiguration("vueTsgo").get("trace"),
+        idleTimeout: workspace
+          .getConfiguration("vueTsgo")
+          .get<number>("idleTimeout"),
+        memoryLimit: workspace
+          .getConfiguration("vueTsgo")
+          .get<number>("memoryLimit"),
+        protocolTrace: workspace
+          .getConfiguration("vueTsgo")
+          .get<string>("protocolTrace"),
+        inferredCompilerOptions: workspace
+          .getConfiguration("vueTsgo")
+          .get("inferredCompilerOptions"),
       },
     },
     middleware: {
       provideHover: async (document, position, token, next) => {
         try {
-          Logger.log("[Client] 提交 Hover 请求", {
+          logger.log("[Client] 提交 Hover 请求", {
             uri: document.uri.toString(),
             position,
           });
           const res = await next(document, position, token);
-          Logger.log("[Client] 收到 Hover 响应", res);
+          logger.log("[Client] 收到 Hover 响应", res);
           return res;
         } catch (err) {
-          Logger.error("[Client] Hover 中间件异常", err);
+          logger.error("[Client] Hover 中间件异常", err);
           throw err;
         }
       },
@@ -104,7 +147,7 @@ async function startVueLanguageServer(
   );
 
   client.onDidChangeState((e) => {
-    Logger.log("[Client] LSP 状态变化", {
+    logger.log("[Client] LSP 状态变化", {
       old: ClientState[e.oldState],
       new: ClientState[e.newState],
     } as any);
@@ -112,12 +155,12 @@ async function startVueLanguageServer(
 
   // 启动客户端
   await client.start();
-  Logger.log("Vue Language Server 已启动");
+  logger.log("Vue Language Server 已启动");
 
   try {
     // 尝试打开 LSP trace
     (client as any).setTrace?.("messages"); // 降级避免过多同步调用
-    Logger.log("已启用 LSP Trace (messages)");
+    logger.log("已启用 LSP Trace (messages)");
     const output = client.outputChannel;
     output.appendLine("[TSGO-DEBUG] Client trace: messages 已开启");
     output.show(true);
@@ -138,12 +181,12 @@ function registerCommands(context: ExtensionContext): void {
     commands.registerCommand("vueTsgo.restartServer", async () => {
       if (client) {
         try {
-          Logger.log("重启 Vue Language Server");
+          logger.log("重启 Vue Language Server");
           await client.stop();
           await client.start();
           window.setStatusBarMessage("Vue TSGo: 服务器已重启", 3000);
         } catch (error) {
-          Logger.error("重启服务器失败:", error);
+          logger.error("重启服务器失败:", error);
           window.showErrorMessage(`重启服务器失败: ${String(error)}`);
         }
       }
@@ -152,22 +195,147 @@ function registerCommands(context: ExtensionContext): void {
 
   // 显示服务器状态命令
   context.subscriptions.push(
-    commands.registerCommand("vueTsgo.showServerStatus", () => {
-      const status = client?.state || "未知";
-      window.showInformationMessage(`Vue Language Server 状态: ${status}`);
+    commands.registerCommand("vueTsgo.showServerStatus", showServerStatus)
+  );
+
+  // 清理虚拟文档命令：关闭并重新打开 TSGo 中的所有虚拟文档
+  context.subscriptions.push(
+    commands.registerCommand("vueTsgo.clearVirtualDocs", async () => {
+      if (client) {
+        try {
+          await client.sendRequest("vueTsgo/clearVirtualDocs");
+          window.setStatusBarMessage("Vue TSGo: 虚拟文档已重新生成", 3000);
+        } catch (error) {
+          logger.error("清理虚拟文档失败:", error);
+          window.showErrorMessage(`清理虚拟文档失败: ${String(error)}`);
+        }
+      }
     })
   );
 }
 
+/**
+ * 以快速选择列表展示服务器状态
+ * 选择虚拟文档项可查看文档列表，选择其他项复制其内容
+ */
+async function showServerStatus(): Promise<void> {
+  if (!client || client.state !== ClientState.Running) {
+    const state = client ? ClientState[client.state] : "未启动";
+    window.showInformationMessage(`Vue Language Server 状态: ${state}`);
+    return;
+  }
+
+  let status: ServerStatus;
+  try {
+    status = await client.sendRequest<ServerStatus>("vueTsgo/serverStatus");
+  } catch (error) {
+    logger.error("获取服务器状态失败:", error);
+    window.showErrorMessage(`获取服务器状态失败: ${String(error)}`);
+    return;
+  }
+
+  type StatusItem = QuickPickItem & { showDocuments?: boolean };
+  // 每个工作区文件夹一个 TSGo 进程，分组展示
+  const items: StatusItem[] = status.tsgo.flatMap((tsgo): StatusItem[] => [
+    {
+      label: tsgo.folder ? path.basename(tsgo.folder) : "TSGo",
+      description: tsgo.folder,
+      kind: QuickPickItemKind.Separator,
+    },
+    { label: "TSGo 状态", description: tsgo.state },
+    {
+      label: "TSGo 路径",
+      description: tsgo.tsgoPath ?? "未知",
+      detail: tsgo.selectionReason,
+    },
+    { label: "TSGo 版本", description: tsgo.version ?? "未知" },
+    { label: "进程 ID", description: tsgo.pid?.toString() ?? "-" },
+    {
+      label: "运行时间",
+      description:
+        tsgo.uptime !== undefined ? formatDuration(tsgo.uptime) : "-",
+    },
+    { label: "处理中的请求", description: String(tsgo.pendingRequests) },
+    {
+      label: "最近错误",
+      description: tsgo.lastError ? "" : "无",
+      detail: tsgo.lastError,
+    },
+  ]);
+  items.push(
+    { label: "语言服务器", kind: QuickPickItemKind.Separator },
+    {
+      label: "虚拟文档",
+      description: `${status.virtualDocuments.length} 个`,
+      detail: "选择以查看列表",
+      showDocuments: true,
+    },
+    {
+      label: "工程",
+      description: `${status.projects.length} 个`,
+      detail: status.projects
+        .map((project) => project ?? "推断工程")
+        .join(", "),
+    },
+    {
+      label: "虚拟文件磁盘缓存",
+      description: status.writeVirtualFiles ? "已启用" : "未启用",
+    }
+  );
+
+  const picked = await window.showQuickPick(items, {
+    title: "Vue TSGo 服务器状态",
+    matchOnDescription: true,
+  });
+  if (!picked) {
+    return;
+  }
+
+  if (picked.showDocuments) {
+    await window.showQuickPick(
+      status.virtualDocuments.map((document) => ({
+        label: path.basename(document.source),
+        description: document.uri,
+        detail: `版本 ${document.version}`,
+      })),
+      { title: "已同步到 TSGo 的虚拟文档", matchOnDescription: true }
+    );
+    return;
+  }
+
+  const text = picked.detail ?? picked.description;
+  if (text) {
+    await env.clipboard.writeText(text);
+    window.setStatusBarMessage(`Vue TSGo: 已复制${picked.label}`, 2000);
+  }
+}
+
+/**
+ * 将毫秒格式化为 1h 2m 3s 形式
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const parts = [
+    [Math.floor(seconds / 3600), "h"],
+    [Math.floor((seconds % 3600) / 60), "m"],
+    [seconds % 60, "s"],
+  ] as const;
+  const text = parts
+    .filter(([value]) => value > 0)
+    .map(([value, unit]) => `${value}${unit}`)
+    .join(" ");
+  return text || "0s";
+}
+
 /**
  * 扩展停用函数
  */
 export async function deactivate(): Promise<void> {
-  Logger.log("Vue TSGo 扩展开始停用");
+  logger.log("Vue TSGo 扩展开始停用");
 
   if (client) {
     await client.stop();
   }
 
-  Logger.log("Vue TSGo 扩展停用完成");
+  logger.log("Vue TSGo 扩展停用完成");
 }
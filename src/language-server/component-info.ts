@@ -0,0 +1,444 @@
+import {
+  forEachElementNode,
+  names,
+  VueVirtualCode,
+} from "@vue/language-core";
+import { TsgoBackendPool } from "./tsgo-backend-pool";
+import { VirtualDocument, VirtualDocumentManager } from "./virtual-documents";
+import { Logger } from "../utils/logger";
+
+const logger = Logger.scope("component-info");
+
+/**
+ * 组件标签的查询语句，追加在 __VLS_query 声明之后
+ * 与模板生成代码一致，通过 __VLS_asFunctionalComponent0 得到的函数式组件获取各类信息：
+ * 第一个参数为属性，返回值的 __ctx 包含插槽、emit 与组件实例（expose 的参数）
+ */
+const TAG_QUERIES = {
+  props: "({} as NonNullable<Parameters<typeof __VLS_query>[0]>).",
+  slots:
+    '({} as NonNullable<NonNullable<ReturnType<typeof __VLS_query>["__ctx"]>["slots"]>).',
+  // 在 emit 的第一个参数（字符串字面量）处请求补全，得到所有重载声明的事件名
+  events:
+    '({} as NonNullable<NonNullable<ReturnType<typeof __VLS_query>["__ctx"]>["emit"]>)("',
+  instance:
+    '({} as Parameters<NonNullable<NonNullable<ReturnType<typeof __VLS_query>["__ctx"]>["expose"]>>[0]).',
+};
+
+/**
+ * 组件属性信息（对应 @vue/language-service 使用的 ComponentPropInfo）
+ */
+export interface ComponentPropInfo {
+  name: string;
+  required?: boolean;
+  optional?: boolean;
+  description?: string;
+}
+
+/**
+ * 组件元信息，用于模板中组件标签的悬停提示
+ */
+export interface ComponentMeta {
+  props: (ComponentMemberInfo & { required: boolean; global?: boolean })[];
+  events: ComponentMemberInfo[];
+  slots: ComponentMemberInfo[];
+  exposed: ComponentMemberInfo[];
+}
+
+/**
+ * 组件的属性、事件、插槽或暴露成员（悬停提示中的一行）
+ */
+export interface ComponentMemberInfo {
+  name: string;
+  /** 类型文本，来自补全项 resolve 后的 detail */
+  type: string;
+  description: string;
+  /** JSDoc 标签（如 deprecated），补全结果中没有，始终为空 */
+  tags: { name: string; text?: string }[];
+}
+
+/**
+ * 组件信息查询
+ * TSGo 没有类似 tsserver 的类型查询接口，这里在虚拟代码末尾追加查询语句生成“查询文档”，
+ * 再对查询语句末尾的成员访问请求补全，从补全项中得到组件、属性、事件等名称
+ */
+export class ComponentInfoProvider {
+  /** 查询文档是共享的，查询必须串行执行 */
+  private queue: Promise<unknown> = Promise.resolve();
+  /** 查询结果缓存（虚拟文档 URI -> 版本与结果） */
+  private cache = new Map<
+    string,
+    { version: number; results: Map<string, QueryMember[]> }
+  >();
+
+  constructor(
+    private tsgoBackend: TsgoBackendPool,
+    private virtualDocuments: VirtualDocumentManager
+  ) {}
+
+  /**
+   * 模板中可用的组件名（全局组件与局部注册组件）
+   */
+  async getComponentNames(fileName: string): Promise<string[] | undefined> {
+    const members = await this.query(fileName, `${names.components}.`);
+    return members?.map((member) => member.name);
+  }
+
+  /**
+   * 原生元素标签名
+   */
+  async getElementNames(fileName: string): Promise<string[] | undefined> {
+    const members = await this.query(fileName, `${names.intrinsics}.`);
+    return members?.map((member) => member.name);
+  }
+
+  /**
+   * 原生元素支持的属性
+   */
+  async getElementAttrs(
+    fileName: string,
+    tag: string
+  ): Promise<{ name: string }[] | undefined> {
+    const members = await this.query(
+      fileName,
+      `${names.intrinsics}[${JSON.stringify(tag)}].`
+    );
+    return members?.map((member) => ({ name: member.name }));
+  }
+
+  /**
+   * 模板中可用的指令（如 vFocus，由调用方转换为 v-focus）
+   */
+  async getComponentDirectives(
+    fileName: string
+  ): Promise<string[] | undefined> {
+    const members = await this.query(fileName, `${names.directives}.`);
+    return members?.map((member) => member.name);
+  }
+
+  /**
+   * 模板偏移位置所在组件标签的属性
+   * templateOffset 相对于 <template> 的内容（即模板嵌入文档的偏移），与模板 AST 的 loc 一致
+   */
+  async getComponentProps(
+    fileName: string,
+    templateOffset: number
+  ): Promise<ComponentPropInfo[] | undefined> {
+    const tag = this.findElementTag(fileName, templateOffset);
+    if (!tag) {
+      return undefined;
+    }
+    return this.getPropsOfTag(fileName, tag);
+  }
+
+  /**
+   * 组件声明的事件（emits / defineEmits）
+   */
+  async getComponentEvents(
+    fileName: string,
+    tag: string
+  ): Promise<string[] | undefined> {
+    const members = await this.queryTag(fileName, tag, TAG_QUERIES.events);
+    return members?.map((member) => member.name);
+  }
+
+  /**
+   * 当前组件声明的插槽名（用于 <slot name="..."> 补全）
+   */
+  async getComponentSlots(fileName: string): Promise<string[] | undefined> {
+    const members = await this.query(
+      fileName,
+      `({} as InstanceType<typeof ${names.export}>["$slots"]).`
+    );
+    return members?.map((member) => member.name);
+  }
+
+  /**
+   * 组件标签的属性、事件等元信息
+   */
+  async getComponentMeta(
+    fileName: string,
+    tag: string
+  ): Promise<ComponentMeta | undefined> {
+    // 悬停提示需要展示类型，查询结果逐项 resolve
+    const props = await this.queryTag(fileName, tag, TAG_QUERIES.props, true);
+    if (!props) {
+      return undefined;
+    }
+
+    const events = await this.queryTag(fileName, tag, TAG_QUERIES.events);
+    const slots = await this.queryTag(fileName, tag, TAG_QUERIES.slots, true);
+    // 组件实例上除 $ 开头的内置成员和属性以外的成员，即 expose 的内容
+    const propNames = new Set(props.map((prop) => prop.name));
+    const instance = await this.queryTag(
+      fileName,
+      tag,
+      TAG_QUERIES.instance,
+      true
+    );
+    const exposed = instance?.filter(
+      (member) => !member.name.startsWith("$") && !propNames.has(member.name)
+    );
+    // 所有组件共有的属性（class、key、ref 等）标记为 global，悬停提示中不展示
+    const globalProps = new Set(
+      (await this.getGlobalPropNames(fileName)) ?? []
+    );
+
+    return {
+      // 事件监听器（onXxx）已作为事件展示
+      props: props
+        .filter((prop) => !toEventName(prop.name))
+        .map((prop) => ({
+          ...toMemberInfo(prop),
+          required: !prop.optional,
+          global: globalProps.has(prop.name),
+        })),
+      events: (events ?? []).map(toMemberInfo),
+      slots: (slots ?? []).map(toMemberInfo),
+      exposed: (exposed ?? []).map(toMemberInfo),
+    };
+  }
+
+  /**
+   * 查询组件标签的属性
+   */
+  private async getPropsOfTag(
+    fileName: string,
+    tag: string
+  ): Promise<ComponentPropInfo[] | undefined> {
+    const members = await this.queryTag(fileName, tag, TAG_QUERIES.props);
+    return members?.map((member) => ({
+      name: member.name,
+      required: !member.optional,
+      optional: member.optional,
+      description: member.description,
+    }));
+  }
+
+  /**
+   * 所有组件共有的属性名（AllowedComponentProps、VNodeProps 与 ComponentCustomProps）
+   */
+  private async getGlobalPropNames(
+    fileName: string
+  ): Promise<string[] | undefined> {
+    const root = this.virtualDocuments.find(fileName)?.sourceScript.generated
+      ?.root;
+    const lib = JSON.stringify(
+      root instanceof VueVirtualCode ? root.vueCompilerOptions.lib : "vue"
+    );
+    const members = await this.query(
+      fileName,
+      `({} as import(${lib}).AllowedComponentProps & import(${lib}).VNodeProps & import(${lib}).ComponentCustomProps).`
+    );
+    return members?.map((member) => member.name);
+  }
+
+  /**
+   * 对组件标签执行 TAG_QUERIES 中的查询
+   */
+  private async queryTag(
+    fileName: string,
+    tag: string,
+    query: string,
+    resolve = false
+  ): Promise<QueryMember[] | undefined> {
+    const component = await this.resolveComponentExpression(fileName, tag);
+    if (!component) {
+      return undefined;
+    }
+    return this.query(
+      fileName,
+      `const __VLS_query = ${names.asFunctionalComponent0}(${component}, new ${component}());\n` +
+        query,
+      resolve
+    );
+  }
+
+  /**
+   * 将模板标签名解析为查询文档中可引用的组件表达式
+   * 优先匹配已注册的组件（含 kebab-case 写法），否则视为 <script setup> 中导入的组件变量
+   */
+  private async resolveComponentExpression(
+    fileName: string,
+    tag: string
+  ): Promise<string | undefined> {
+    const camelized = tag.replace(/-(\w)/g, (_, c: string) => c.toUpperCase());
+    const candidates = [
+      tag,
+      camelized,
+      camelized.charAt(0).toUpperCase() + camelized.slice(1),
+    ];
+
+    const components = new Set(await this.getComponentNames(fileName));
+    const registered = candidates.find((name) => components.has(name));
+    if (registered) {
+      return `${names.components}[${JSON.stringify(registered)}]`;
+    }
+
+    return /^[A-Z_$][\w$]*(?:\.[\w$]+)*$/.test(tag) ? tag : undefined;
+  }
+
+  /**
+   * 查找模板偏移位置所在的最内层元素标签
+   */
+  private findElementTag(
+    fileName: string,
+    templateOffset: number
+  ): string | undefined {
+    const document = this.virtualDocuments.find(fileName);
+    const root = document?.sourceScript.generated?.root;
+    const ast =
+      root instanceof VueVirtualCode ? root.ir.template?.ast : undefined;
+    if (!ast) {
+      return undefined;
+    }
+
+    let tag: string | undefined;
+    for (const element of forEachElementNode(ast)) {
+      if (
+        templateOffset >= element.loc.start.offset &&
+        templateOffset <= element.loc.end.offset
+      ) {
+        // 遍历为先序，后出现的匹配元素嵌套更深
+        tag = element.tag;
+      }
+    }
+    return tag;
+  }
+
+  /**
+   * 执行一次查询：同步查询文档并在末尾请求补全
+   * @param resolve 是否逐项 resolve 补全项以获取类型和文档
+   */
+  private async query(
+    fileName: string,
+    query: string,
+    resolve = false
+  ): Promise<QueryMember[] | undefined> {
+    const run = this.queue.then(() => this.runQuery(fileName, query, resolve));
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async runQuery(
+    fileName: string,
+    query: string,
+    resolve: boolean
+  ): Promise<QueryMember[] | undefined> {
+    try {
+      const document = await this.virtualDocuments.get(fileName);
+      if (!document) {
+        return undefined;
+      }
+
+      const cached = this.getCachedResults(document);
+      const key = resolve ? `resolve:${query}` : query;
+      const hit = cached.get(key);
+      if (hit) {
+        return hit;
+      }
+
+      const { uri, position } = await this.virtualDocuments.syncQueryDocument(
+        document,
+        query
+      );
+      const result = await this.tsgoBackend.provideCompletion(uri, position);
+      if (!result) {
+        return undefined;
+      }
+
+      let items: any[] = (
+        Array.isArray(result) ? result : result.items ?? []
+      ).filter((item: any) => !item.label.startsWith("__VLS_"));
+      // 查询在队列中串行执行，resolve 时查询文档仍是当前内容
+      if (resolve) {
+        items = await Promise.all(
+          items.map((item) =>
+            this.tsgoBackend
+              .resolveCompletionItem(uri, item)
+              .then((resolved: any) => resolved ?? item)
+              .catch(() => item)
+          )
+        );
+      }
+      const members = items.map(toQueryMember);
+      cached.set(key, members);
+
+      logger.debug("组件信息查询", {
+        fileName,
+        query,
+        count: members.length,
+      });
+      return members;
+    } catch (error) {
+      logger.error("组件信息查询失败", error);
+      return undefined;
+    }
+  }
+
+  private getCachedResults(document: VirtualDocument) {
+    const version = document.generated.version;
+    let entry = this.cache.get(document.uri);
+    if (!entry || entry.version !== version) {
+      entry = { version, results: new Map() };
+      this.cache.set(document.uri, entry);
+    }
+    return entry.results;
+  }
+}
+
+interface QueryMember {
+  name: string;
+  optional: boolean;
+  description?: string;
+  /** 补全项 detail 中的类型（仅 resolve 后才有） */
+  type?: string;
+}
+
+/**
+ * 从补全项中提取成员名；可选成员的标签以 ? 结尾
+ */
+function toQueryMember(item: any): QueryMember {
+  const label: string = item.label;
+  const optional = label.endsWith("?");
+  const documentation =
+    typeof item.documentation === "string"
+      ? item.documentation
+      : item.documentation?.value;
+  return {
+    name: optional ? label.slice(0, -1) : label,
+    optional,
+    description: documentation || undefined,
+    type: item.detail ? toDetailType(item.detail) : undefined,
+  };
+}
+
+/**
+ * 从 resolve 后的 detail 中提取类型
+ * "(property) label?: string" -> "string"；方法等无法拆分的保留去掉种类前缀后的声明
+ */
+function toDetailType(detail: string): string {
+  const declaration = detail.replace(/^\([^)]*\)\s*/, "");
+  const match = /^[\w$.]+\??:\s*([\s\S]*)$/.exec(declaration);
+  return match ? match[1] : declaration;
+}
+
+function toMemberInfo(member: QueryMember): ComponentMemberInfo {
+  return {
+    name: member.name,
+    type: member.type ?? "",
+    description: member.description ?? "",
+    tags: [],
+  };
+}
+
+/**
+ * onUpdate:modelValue -> update:modelValue，onChange -> change
+ */
+function toEventName(propName: string): string | undefined {
+  const match = /^on([A-Z].*)$/.exec(propName);
+  if (!match) {
+    return undefined;
+  }
+  return match[1].charAt(0).toLowerCase() + match[1].slice(1);
+}
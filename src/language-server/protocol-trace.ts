@@ -0,0 +1,175 @@
+import * as fs from "fs";
+
+/**
+ * 协议记录中的一条记录（JSON Lines 的一行）
+ * 每次启动 TSGo 进程写入一条 session，之后是双向的 JSON-RPC 消息，
+ * 以及桥接层的输入：同步的 .vue 源码和 Vue 语言服务插件发起的请求（回放时据此重新驱动）
+ */
+export type ProtocolTraceRecord =
+  | {
+      type: "session";
+      time: string;
+      folder?: string;
+      tsgoPath?: string;
+      version?: string;
+    }
+  | {
+      type: "message";
+      time: string;
+      /** send: 发送给 TSGo，receive: 来自 TSGo */
+      direction: "send" | "receive";
+      message: any;
+    }
+  | {
+      type: "source";
+      time: string;
+      /** .vue 源文件 URI */
+      uri: string;
+      languageId: string;
+      /** 源码内容，null 表示虚拟文档已关闭 */
+      text: string | null;
+    }
+  | {
+      /** 插件客户端（TsgoPluginClient）收到的请求，参数不含取消令牌 */
+      type: "request";
+      time: string;
+      id: number;
+      method: string;
+      args: any[];
+    }
+  | {
+      /** 插件客户端映射回 .vue 文件后的结果 */
+      type: "response";
+      time: string;
+      id: number;
+      result: any;
+    };
+
+/**
+ * session 中除 session 头以外的记录
+ */
+export type ProtocolTraceEntry = Exclude<
+  ProtocolTraceRecord,
+  { type: "session" }
+>;
+
+/**
+ * 一次 TSGo 进程生命周期内的记录
+ */
+export interface ProtocolTraceSession {
+  folder?: string;
+  tsgoPath?: string;
+  version?: string;
+  messages: { direction: "send" | "receive"; message: any }[];
+  /** 按记录顺序排列的所有消息与输入 */
+  entries: ProtocolTraceEntry[];
+}
+
+/**
+ * 协议记录器，由 TsgoBackend 在收发消息时调用
+ */
+export interface ProtocolTraceRecorder {
+  record(record: ProtocolTraceRecord): void;
+  close(): void;
+}
+
+/**
+ * 将记录同步追加到文件，进程崩溃时也不会丢失最后的消息
+ */
+export class FileTraceRecorder implements ProtocolTraceRecorder {
+  private fd: number | undefined;
+
+  constructor(readonly fileName: string) {}
+
+  record(record: ProtocolTraceRecord): void {
+    try {
+      this.fd ??= fs.openSync(this.fileName, "a");
+      fs.writeSync(this.fd, `${JSON.stringify(record)}\n`);
+    } catch {}
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      try {
+        fs.closeSync(this.fd);
+      } catch {}
+      this.fd = undefined;
+    }
+  }
+}
+
+/**
+ * 在内存中保存记录（用于回放时对比）
+ */
+export class MemoryTraceRecorder implements ProtocolTraceRecorder {
+  readonly records: ProtocolTraceRecord[] = [];
+
+  record(record: ProtocolTraceRecord): void {
+    this.records.push(record);
+  }
+
+  close(): void {}
+}
+
+/**
+ * 读取协议记录文件，按 session 分组
+ */
+export function readProtocolTrace(fileName: string): ProtocolTraceSession[] {
+  const text = fs.readFileSync(fileName, "utf8");
+  return toSessions(
+    text
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as ProtocolTraceRecord;
+        } catch {
+          throw new Error(`协议记录第 ${index + 1} 行不是有效的 JSON`);
+        }
+      })
+  );
+}
+
+function toSessions(records: ProtocolTraceRecord[]): ProtocolTraceSession[] {
+  const sessions: ProtocolTraceSession[] = [];
+  for (const record of records) {
+    if (record.type === "session") {
+      sessions.push({
+        folder: record.folder,
+        tsgoPath: record.tsgoPath,
+        version: record.version,
+        messages: [],
+        entries: [],
+      });
+    } else {
+      // 缺少 session 头的记录（如手工截取的片段）归入一个匿名 session
+      if (!sessions.length) {
+        sessions.push({ messages: [], entries: [] });
+      }
+      const session = sessions[sessions.length - 1];
+      session.entries.push(record);
+      if (record.type === "message") {
+        session.messages.push({
+          direction: record.direction,
+          message: record.message,
+        });
+      }
+    }
+  }
+  return sessions;
+}
+
+/**
+ * 键排序后的 JSON，用于比较消息内容
+ */
+export function stableStringify(value: any): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.keys(item)
+            .sort()
+            .map((key) => [key, item[key]])
+        )
+      : item
+  );
+}
@@ -0,0 +1,364 @@
+import * as path from "path";
+import { CancellationToken } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { ProtocolTraceEntry } from "./protocol-trace";
+import {
+  TsgoBackend,
+  TsgoBackendOptions,
+  TsgoBackendStatus,
+} from "./tsgo-backend";
+import { ServerConfigManager } from "../utils/server-config";
+import { Logger } from "../utils/logger";
+
+const logger = Logger.scope("tsgo-pool");
+
+type Position = { line: number; character: number };
+type Range = { start: Position; end: Position };
+
+/**
+ * TSGo 后端进程池
+ * 每个工作区文件夹对应一个 TSGo 进程（以该文件夹为 rootUri 和工作目录），
+ * 请求按文档 URI 路由到所在文件夹的进程；未打开文件夹时只有一个进程
+ */
+export class TsgoBackendPool {
+  /** 工作区文件夹 -> 后端，未打开文件夹时键为空字符串 */
+  private backends = new Map<string, TsgoBackend>();
+  /** 文档 -> 已同步到的后端，文件夹变化后路由可能改变 */
+  private documents = new Map<string, TsgoBackend>();
+  private started = false;
+  private diagnosticsListeners = new Set<(uri: string) => void>();
+  private recoverListeners = new Set<() => void>();
+  private crashLoopListeners = new Set<(message: string) => void>();
+
+  /**
+   * @param options 创建每个后端时使用的参数（如回放时的模拟进程）
+   */
+  constructor(private options: TsgoBackendOptions = {}) {}
+
+  /**
+   * 按当前工作区文件夹启动所有后端
+   */
+  async start(): Promise<void> {
+    this.started = true;
+    this.syncBackends();
+    await Promise.all([...this.backends.values()].map((b) => b.start()));
+  }
+
+  /**
+   * 停止所有后端
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    await Promise.all([...this.backends.values()].map((b) => b.stop()));
+  }
+
+  /**
+   * 工作区文件夹变化后启动新增文件夹的后端、停止已移除文件夹的后端
+   */
+  async updateWorkspaceFolders(): Promise<void> {
+    const { added, removed } = this.syncBackends();
+    if (!added.length && !removed.length) {
+      return;
+    }
+    logger.log("工作区文件夹变化，调整 TSGo 进程", {
+      added: added.map((b) => b.folder),
+      removed: removed.map((b) => b.folder),
+    });
+
+    await Promise.all(removed.map((b) => b.stop()));
+    if (this.started) {
+      await Promise.all(added.map((b) => b.start()));
+    }
+  }
+
+  /**
+   * 是否有后端已就绪
+   */
+  isRunning(): boolean {
+    return [...this.backends.values()].some((b) => b.isRunning());
+  }
+
+  /**
+   * 最近一次启动失败的原因（任一后端）
+   */
+  getLastError(): string | undefined {
+    for (const backend of this.backends.values()) {
+      const error = backend.getLastError();
+      if (error) {
+        return error;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 各后端的运行状态
+   */
+  getStatus(): TsgoBackendStatus[] {
+    return [...this.backends.values()].map((b) => b.getStatus());
+  }
+
+  /**
+   * 文档所在文件夹的后端是否声明了指定能力
+   */
+  hasCapability(uri: string, name: string): boolean {
+    return this.route(uri).hasCapability(name);
+  }
+
+  onDidPublishDiagnostics(listener: (uri: string) => void): {
+    dispose(): void;
+  } {
+    this.diagnosticsListeners.add(listener);
+    return { dispose: () => this.diagnosticsListeners.delete(listener) };
+  }
+
+  onDidRecover(listener: () => void): { dispose(): void } {
+    this.recoverListeners.add(listener);
+    return { dispose: () => this.recoverListeners.delete(listener) };
+  }
+
+  onDidCrashLoop(listener: (message: string) => void): { dispose(): void } {
+    this.crashLoopListeners.add(listener);
+    return { dispose: () => this.crashLoopListeners.delete(listener) };
+  }
+
+  provideDefinition(
+    uri: string,
+    position: Position,
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideDefinition(uri, position, token);
+  }
+
+  provideHover(uri: string, position: Position, token?: CancellationToken) {
+    return this.route(uri).provideHover(uri, position, token);
+  }
+
+  provideCompletion(
+    uri: string,
+    position: Position,
+    context?: { triggerKind: number; triggerCharacter?: string },
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideCompletion(uri, position, context, token);
+  }
+
+  /**
+   * 解析补全项，uri 为产生该补全项的文档
+   */
+  resolveCompletionItem(uri: string, item: any, token?: CancellationToken) {
+    return this.route(uri).resolveCompletionItem(item, token);
+  }
+
+  provideSignatureHelp(
+    uri: string,
+    position: Position,
+    context?: any,
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideSignatureHelp(uri, position, context, token);
+  }
+
+  provideReferences(
+    uri: string,
+    position: Position,
+    includeDeclaration: boolean,
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideReferences(
+      uri,
+      position,
+      includeDeclaration,
+      token
+    );
+  }
+
+  prepareRename(uri: string, position: Position, token?: CancellationToken) {
+    return this.route(uri).prepareRename(uri, position, token);
+  }
+
+  provideRename(
+    uri: string,
+    position: Position,
+    newName: string,
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideRename(uri, position, newName, token);
+  }
+
+  provideDocumentHighlights(
+    uri: string,
+    position: Position,
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideDocumentHighlights(uri, position, token);
+  }
+
+  provideSemanticTokens(
+    uri: string,
+    range?: Range,
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideSemanticTokens(uri, range, token);
+  }
+
+  provideCodeActions(
+    uri: string,
+    range: Range,
+    context: { diagnostics: any[]; only?: string[]; triggerKind?: number },
+    token?: CancellationToken
+  ) {
+    return this.route(uri).provideCodeActions(uri, range, context, token);
+  }
+
+  /**
+   * 解析代码操作，uri 为产生该代码操作的文档
+   */
+  resolveCodeAction(uri: string, action: any, token?: CancellationToken) {
+    return this.route(uri).resolveCodeAction(action, token);
+  }
+
+  provideInlayHints(uri: string, range: Range, token?: CancellationToken) {
+    return this.route(uri).provideInlayHints(uri, range, token);
+  }
+
+  provideDiagnostics(uri: string, token?: CancellationToken) {
+    return this.route(uri).provideDiagnostics(uri, token);
+  }
+
+  requestDiagnostics(uri: string, token?: CancellationToken) {
+    return this.route(uri).requestDiagnostics(uri, token);
+  }
+
+  /**
+   * 文件变化按所在文件夹分组转发
+   */
+  async didChangeWatchedFiles(
+    changes: { uri: string; type: number }[]
+  ): Promise<void> {
+    const groups = new Map<TsgoBackend, { uri: string; type: number }[]>();
+    for (const change of changes) {
+      const backend = this.route(change.uri);
+      groups.set(backend, [...(groups.get(backend) ?? []), change]);
+    }
+    await Promise.all(
+      [...groups].map(([backend, group]) =>
+        backend.didChangeWatchedFiles(group)
+      )
+    );
+  }
+
+  async notifyConfigurationChanged(): Promise<void> {
+    await Promise.all(
+      [...this.backends.values()].map((b) => b.notifyConfigurationChanged())
+    );
+  }
+
+  /**
+   * 同步文档到所在文件夹的后端，路由变化时先从原来的后端关闭
+   */
+  async syncDocument(
+    uri: string,
+    languageId: string,
+    text: string
+  ): Promise<void> {
+    const backend = this.route(uri);
+    const previous = this.documents.get(uri);
+    if (previous && previous !== backend) {
+      await previous.closeDocument(uri);
+    }
+    this.documents.set(uri, backend);
+    await backend.syncDocument(uri, languageId, text);
+  }
+
+  async closeDocument(uri: string): Promise<void> {
+    const backend = this.documents.get(uri) ?? this.route(uri);
+    this.documents.delete(uri);
+    await backend.closeDocument(uri);
+  }
+
+  getDocument(uri: string): TextDocument | undefined {
+    return this.route(uri).getDocument(uri);
+  }
+
+  /**
+   * 将桥接层的输入记录到文件所在文件夹的后端的协议记录中
+   */
+  recordTrace(uri: string, entry: ProtocolTraceEntry): void {
+    this.route(uri).recordTrace(entry);
+  }
+
+  /**
+   * 按工作区文件夹创建或移除后端（不启动、不停止）
+   */
+  private syncBackends(): { added: TsgoBackend[]; removed: TsgoBackend[] } {
+    const folders = ServerConfigManager.getWorkspaceFolders();
+    const keys = folders.length ? folders : [""];
+
+    const removed: TsgoBackend[] = [];
+    for (const [key, backend] of this.backends) {
+      if (!keys.includes(key)) {
+        this.backends.delete(key);
+        removed.push(backend);
+      }
+    }
+
+    const added: TsgoBackend[] = [];
+    for (const key of keys) {
+      if (!this.backends.has(key)) {
+        const backend = this.createBackend(key || undefined);
+        this.backends.set(key, backend);
+        added.push(backend);
+      }
+    }
+    return { added, removed };
+  }
+
+  private createBackend(folder: string | undefined): TsgoBackend {
+    const backend = new TsgoBackend(folder, this.options);
+    backend.onDidPublishDiagnostics((uri) => {
+      for (const listener of this.diagnosticsListeners) {
+        listener(uri);
+      }
+    });
+    backend.onDidRecover(() => {
+      for (const listener of this.recoverListeners) {
+        listener();
+      }
+    });
+    backend.onDidCrashLoop((message) => {
+      for (const listener of this.crashLoopListeners) {
+        listener(folder ? `${message} (${folder})` : message);
+      }
+    });
+    return backend;
+  }
+
+  /**
+   * 选择文档所在的（最深的）工作区文件夹对应的后端，不在任何文件夹内时使用第一个
+   */
+  private route(uri: string): TsgoBackend {
+    if (!this.backends.size) {
+      this.syncBackends();
+    }
+
+    const fileName = URI.parse(uri).fsPath;
+    let match: TsgoBackend | undefined;
+    for (const [folder, backend] of this.backends) {
+      if (
+        folder &&
+        isInside(fileName, folder) &&
+        (!match?.folder || folder.length > match.folder.length)
+      ) {
+        match = backend;
+      }
+    }
+    return match ?? this.backends.values().next().value!;
+  }
+}
+
+function isInside(fileName: string, folder: string): boolean {
+  const relative = path.relative(folder, fileName);
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
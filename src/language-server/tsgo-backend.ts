@@ -1,138 +1,473 @@
-import { spawn, ChildProcess } from "child_process";
+import { execFile, spawn, ChildProcess } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  CancellationToken,
+  LSPErrorCodes,
+  ResponseError,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
 import { ServerConfigManager } from "../utils/server-config";
+import { isSupportedTsgoVersion, selectTsgo } from "../utils/tsgo-version";
+import {
+  FileTraceRecorder,
+  ProtocolTraceEntry,
+  ProtocolTraceRecorder,
+} from "./protocol-trace";
 import { Logger } from "../utils/logger";
 
+const logger = Logger.scope("tsgo-backend");
+
+/** 崩溃后首次重启的等待时间，之后按指数退避 */
+const RESTART_BASE_DELAY = 500;
+const RESTART_MAX_DELAY = 30000;
+/** 在该时间窗口内崩溃超过 MAX_RESTARTS 次视为崩溃循环，停止自动重启 */
+const CRASH_WINDOW = 3 * 60 * 1000;
+const MAX_RESTARTS = 5;
+/** 与进程生命周期绑定、不应在重启后重发的请求 */
+const NON_RETRYABLE_METHODS = new Set(["initialize", "shutdown"]);
+/** 启动失败时附带的 stderr 最大长度 */
+const STDERR_TAIL_LENGTH = 4000;
+/** 检查空闲时间与内存占用的间隔 */
+const MONITOR_INTERVAL = 30 * 1000;
+
+/**
+ * 请求方法对应的 TSGo 服务器能力，未声明的能力直接返回空结果
+ */
+const METHOD_CAPABILITIES: Record<string, string> = {
+  "textDocument/hover": "hoverProvider",
+  "textDocument/definition": "definitionProvider",
+  "textDocument/completion": "completionProvider",
+  "completionItem/resolve": "completionProvider",
+  "textDocument/signatureHelp": "signatureHelpProvider",
+  "textDocument/diagnostic": "diagnosticProvider",
+  "textDocument/references": "referencesProvider",
+  "textDocument/prepareRename": "renameProvider",
+  "textDocument/rename": "renameProvider",
+  "textDocument/documentHighlight": "documentHighlightProvider",
+  "textDocument/semanticTokens/full": "semanticTokensProvider",
+  "textDocument/semanticTokens/range": "semanticTokensProvider",
+  "textDocument/codeAction": "codeActionProvider",
+  "codeAction/resolve": "codeActionProvider",
+  "textDocument/inlayHint": "inlayHintProvider",
+};
+
+/**
+ * TSGo 后端生命周期状态
+ * stopped → starting（进程启动）→ initializing（等待 initialize 响应）→ ready → stopping → stopped
+ * 空闲超时后进入 idle（进程已停止但保留文档），收到请求时重新经过 starting 启动
+ */
+export type TsgoBackendState =
+  | "stopped"
+  | "starting"
+  | "initializing"
+  | "ready"
+  | "idle"
+  | "stopping";
+
+interface PendingRequest {
+  method: string;
+  params: any;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+  /** 是否已经因 TSGo 崩溃重发过一次 */
+  retried: boolean;
+  /** 已发送到 TSGo 时的请求 ID */
+  id?: number;
+  /** 已发送时的超时计时器，请求结束或移出 pendingRequests 时清除 */
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * TSGo 后端运行状态，用于状态查询命令
+ */
+export interface TsgoBackendStatus {
+  /** 负责的工作区文件夹，未打开文件夹时为空 */
+  folder?: string;
+  state: TsgoBackendState;
+  /** 当前使用的 tsgo 可执行文件 */
+  tsgoPath?: string;
+  /** tsgo --version 的输出（如 7.0.0-dev.20250808.1） */
+  version?: string;
+  /** 选择该 tsgo 的原因（配置、工作区中的兼容版本或内置版本） */
+  selectionReason?: string;
+  pid?: number;
+  /** 本次就绪以来的运行时间（毫秒） */
+  uptime?: number;
+  openDocuments: number;
+  /** 处理中及等待 TSGo 就绪的请求数 */
+  pendingRequests: number;
+  lastError?: string;
+}
+
+/**
+ * TsgoBackend 的可选参数
+ */
+export interface TsgoBackendOptions {
+  /** 替代 tsgo 的启动命令（如回放使用的模拟进程），参数需包含完整的命令行 */
+  command?: { path: string; args: string[] };
+  /** 协议记录器，优先于 vueTsgo.protocolTrace 配置 */
+  recorder?: ProtocolTraceRecorder;
+}
+
 /**
  * TSGo 后端通信类
  * 负责与 TSGo LSP 服务器的通信，作为 TypeScript 分析的后端
  */
 export class TsgoBackend {
   private tsgoProcess: ChildProcess | undefined;
+  private state: TsgoBackendState = "stopped";
   private requestId = 0;
-  private pendingRequests = new Map<
-    number,
-    {
-      resolve: (value: any) => void;
-      reject: (error: any) => void;
-    }
-  >();
+  private pendingRequests = new Map<number, PendingRequest>();
+  /** 已同步到 TSGo 的文档（uri -> 最新内容与版本） */
+  private openDocuments = new Map<string, TextDocument>();
+  /** TSGo 推送的诊断信息（uri -> diagnostics） */
+  private publishedDiagnostics = new Map<string, any[]>();
+  private diagnosticsListeners = new Set<(uri: string) => void>();
+  /** TSGo initialize 返回的服务器能力 */
+  private serverCapabilities: any = {};
+  /** 启动成功后由监督逻辑负责崩溃重启，直到主动 stop */
+  private supervised = false;
+  /** 是否处于崩溃后的重启流程中 */
+  private recovering = false;
+  private restartTimer: NodeJS.Timeout | undefined;
+  private crashTimes: number[] = [];
+  /** 等待 TSGo 就绪的请求（启动中发出的请求、崩溃时仍在处理中的请求） */
+  private queuedRequests: PendingRequest[] = [];
+  /** 最近的 stderr 输出，用于报告启动失败原因 */
+  private stderrTail = "";
+  private lastError: string | undefined;
+  private tsgoPath: string | undefined;
+  private tsgoVersion: string | undefined;
+  private tsgoSelectionReason: string | undefined;
+  /** 最近一次就绪的时间 */
+  private readyAt: number | undefined;
+  /** 最近一次请求或文档同步的时间，用于空闲停止 */
+  private lastActivity = Date.now();
+  private monitorTimer: NodeJS.Timeout | undefined;
+  private recoverListeners = new Set<() => void>();
+  private crashLoopListeners = new Set<(message: string) => void>();
+
+  /** 协议记录器（配置了 vueTsgo.protocolTrace 或由回放工具指定时） */
+  private recorder: ProtocolTraceRecorder | undefined;
+  /** 当前 session 已记录的 .vue 源码（内容未变化时不重复记录） */
+  private tracedSources = new Map<string, string>();
+
+  /**
+   * @param folder 负责的工作区文件夹，作为 TSGo 的工作目录和 rootUri
+   */
+  constructor(
+    readonly folder?: string,
+    private options: TsgoBackendOptions = {}
+  ) {}
 
   /**
    * 启动 TSGo 后端服务
    */
   async start(): Promise<void> {
-    Logger.log("启动 TSGo 后端服务");
+    if (this.state !== "stopped") {
+      return;
+    }
+    logger.log("启动 TSGo 后端服务", { folder: this.folder });
 
     try {
-      const tsgoPath = await ServerConfigManager.getTsgoPath();
-      const serverCwd = ServerConfigManager.pickServerCwd();
+      await this.launch();
+      this.supervised = true;
+      this.crashTimes = [];
+      this.startMonitor();
+      logger.log("TSGo 后端服务启动完成");
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      logger.error("TSGo 后端服务启动失败", error);
+      this.killProcess();
+      this.setState("stopped");
+      this.openDocuments.clear();
+      this.rejectQueuedRequests(error);
+      // 不要重新抛出错误，让语言服务器继续运行，只是没有 TSGo 后端
+      logger.warn("语言服务器将在没有 TSGo 后端的情况下继续运行");
+    }
+  }
 
-      Logger.debug("TSGo 配置", { tsgoPath, serverCwd });
+  /**
+   * 启动 TSGo 进程并完成 LSP 初始化，失败时抛出错误
+   * initialize 响应即为就绪信号，之后重新打开已跟踪的文档并发出排队的请求
+   */
+  private async launch(): Promise<void> {
+    this.setState("starting");
+    this.stderrTail = "";
 
-      this.tsgoProcess = spawn(tsgoPath, ["--lsp", "--stdio"], {
-        cwd: serverCwd,
-        stdio: ["pipe", "pipe", "pipe"],
-      });
+    const command = await this.resolveCommand();
+    const serverCwd = this.folder;
 
-      if (!this.tsgoProcess.stdin || !this.tsgoProcess.stdout) {
-        throw new Error("无法创建 TSGo 进程的输入输出流");
-      }
+    logger.debug("TSGo 配置", {
+      tsgoPath: command.path,
+      version: this.tsgoVersion,
+      serverCwd,
+    });
 
-      // 设置数据处理
-      this.setupProcessHandlers();
+    this.tsgoProcess = spawn(command.path, command.args, {
+      cwd: serverCwd,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
 
-      // 等待进程启动
-      await new Promise<void>((resolve, reject) => {
-        let resolved = false;
+    if (!this.tsgoProcess.stdin || !this.tsgoProcess.stdout) {
+      throw new Error("无法创建 TSGo 进程的输入输出流");
+    }
 
-        const onError = (error: Error) => {
-          if (!resolved) {
-            resolved = true;
-            Logger.error("TSGo 进程启动失败", error);
-            reject(new Error(`TSGo 进程启动失败: ${error.message}`));
-          }
-        };
-
-        const onExit = (code: number | null, signal: string | null) => {
-          if (!resolved) {
-            resolved = true;
-            const msg = `TSGo 进程异常退出: code=${code}, signal=${signal}`;
-            Logger.error(msg);
-            reject(new Error(msg));
-          }
-        };
-
-        this.tsgoProcess!.on("error", onError);
-        this.tsgoProcess!.on("exit", onExit);
-
-        // 给进程一些时间启动，如果没有立即出错，认为启动成功
-        setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            this.tsgoProcess!.off("error", onError);
-            this.tsgoProcess!.off("exit", onExit);
-            resolve();
-          }
-        }, 1000);
+    this.startRecording();
+
+    // 设置数据处理
+    this.setupProcessHandlers();
+
+    // 等待进程创建（可执行文件不存在等错误通过 error 事件报告）
+    const tsgoProcess = this.tsgoProcess;
+    await new Promise<void>((resolve, reject) => {
+      const onSpawn = () => {
+        tsgoProcess.off("error", onError);
+        resolve();
+      };
+      const onError = (error: Error) => {
+        tsgoProcess.off("spawn", onSpawn);
+        reject(new Error(`TSGo 进程启动失败: ${error.message}`));
+      };
+      tsgoProcess.once("spawn", onSpawn);
+      tsgoProcess.once("error", onError);
+    });
+
+    // 初始化 LSP 连接
+    this.setState("initializing");
+    await this.initializeLsp();
+    this.setState("ready");
+    this.readyAt = Date.now();
+    this.lastError = undefined;
+
+    for (const document of this.openDocuments.values()) {
+      await this.sendNotification("textDocument/didOpen", {
+        textDocument: {
+          uri: document.uri,
+          languageId: document.languageId,
+          version: document.version,
+          text: document.getText(),
+        },
       });
+    }
 
-      // 初始化 LSP 连接
-      await this.initializeLsp();
+    const queued = this.queuedRequests;
+    this.queuedRequests = [];
+    for (const request of queued) {
+      this.dispatchRequest(request);
+    }
 
-      Logger.log("TSGo 后端服务启动完成");
-    } catch (error) {
-      Logger.error("TSGo 后端服务启动失败", error);
-      // 不要重新抛出错误，让语言服务器继续运行，只是没有 TSGo 后端
-      Logger.warn("语言服务器将在没有 TSGo 后端的情况下继续运行");
+    if (this.openDocuments.size || queued.length) {
+      logger.debug("TSGo 就绪，已同步启动期间的文档和请求", {
+        documents: this.openDocuments.size,
+        requests: queued.length,
+      });
+    }
+  }
+
+  /**
+   * 确定启动命令：指定了 command 时直接使用（如协议回放），否则自动选择 tsgo
+   */
+  private async resolveCommand(): Promise<{ path: string; args: string[] }> {
+    if (this.options.command) {
+      this.tsgoPath = this.options.command.path;
+      return this.options.command;
+    }
+
+    const selection = await selectTsgo(this.folder);
+    if (
+      selection.path !== this.tsgoPath ||
+      selection.version !== this.tsgoVersion
+    ) {
+      const version = selection.version ?? "（版本未知）";
+      const message =
+        `使用 tsgo ${version}: ${selection.path}` + `（${selection.reason}）`;
+      if (isSupportedTsgoVersion(selection.version)) {
+        logger.log(message);
+      } else {
+        logger.warn(message);
+      }
+    }
+    this.tsgoPath = selection.path;
+    this.tsgoVersion = selection.version;
+    this.tsgoSelectionReason = selection.reason;
+    return { path: selection.path, args: ["--lsp", "--stdio"] };
+  }
+
+  /**
+   * 记录桥接层的输入（.vue 源码、插件客户端的请求与结果），未启用协议记录时忽略
+   */
+  recordTrace(entry: ProtocolTraceEntry): void {
+    if (!this.recorder) {
+      return;
+    }
+    if (entry.type === "source") {
+      if (entry.text === null) {
+        this.tracedSources.delete(entry.uri);
+      } else if (this.tracedSources.get(entry.uri) === entry.text) {
+        return;
+      } else {
+        this.tracedSources.set(entry.uri, entry.text);
+      }
+    }
+    this.recorder.record(entry);
+  }
+
+  /**
+   * 每次启动进程时开始新的记录 session，记录文件在停止后关闭
+   */
+  private startRecording(): void {
+    this.tracedSources.clear();
+    if (!this.recorder && this.options.recorder) {
+      this.recorder = this.options.recorder;
+    } else if (!this.recorder) {
+      const traceFile = ServerConfigManager.getProtocolTraceFile(this.folder);
+      if (traceFile) {
+        logger.log(`记录 TSGo 协议消息: ${traceFile}`);
+        this.recorder = new FileTraceRecorder(traceFile);
+      }
     }
+    this.recorder?.record({
+      type: "session",
+      time: new Date().toISOString(),
+      folder: this.folder,
+      tsgoPath: this.tsgoPath,
+      version: this.tsgoVersion,
+    });
   }
 
   /**
    * 停止 TSGo 后端服务
    */
   async stop(): Promise<void> {
-    Logger.log("停止 TSGo 后端服务");
+    logger.log("停止 TSGo 后端服务", { folder: this.folder });
+
+    this.supervised = false;
+    this.recovering = false;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+    }
+    this.stopMonitor();
 
     if (this.tsgoProcess) {
+      this.setState("stopping");
       // 发送 shutdown 请求
       try {
-        await this.sendRequest("shutdown", null);
+        await this.requestNow("shutdown", null);
         await this.sendNotification("exit", null);
       } catch (error) {
-        Logger.error("停止 TSGo 时出错:", error);
+        logger.error("停止 TSGo 时出错:", error);
       }
 
-      this.tsgoProcess.kill();
-      this.tsgoProcess = undefined;
+      this.killProcess();
     }
+    this.setState("stopped");
+
+    this.openDocuments.clear();
+    this.publishedDiagnostics.clear();
+    this.recorder?.close();
+    this.recorder = undefined;
 
     // 清理待处理的请求
-    for (const [id, { reject }] of this.pendingRequests) {
-      reject(new Error("TSGo 后端服务已停止"));
+    const error = new Error("TSGo 后端服务已停止");
+    for (const { reject } of this.takePendingRequests()) {
+      reject(error);
     }
-    this.pendingRequests.clear();
+    this.rejectQueuedRequests(error);
+  }
+
+  /**
+   * TSGo 是否已完成初始化、可以处理请求
+   */
+  isRunning(): boolean {
+    return this.state === "ready";
+  }
+
+  /**
+   * 当前生命周期状态
+   */
+  getState(): TsgoBackendState {
+    return this.state;
+  }
+
+  /**
+   * 最近一次启动失败的原因（含 TSGo stderr）
+   */
+  getLastError(): string | undefined {
+    return this.lastError;
+  }
+
+  /**
+   * 当前运行状态
+   */
+  getStatus(): TsgoBackendStatus {
+    return {
+      folder: this.folder,
+      state: this.state,
+      tsgoPath: this.tsgoPath,
+      version: this.tsgoVersion,
+      selectionReason: this.tsgoSelectionReason,
+      pid: this.tsgoProcess?.pid,
+      uptime:
+        this.isRunning() && this.readyAt !== undefined
+          ? Date.now() - this.readyAt
+          : undefined,
+      openDocuments: this.openDocuments.size,
+      pendingRequests: this.pendingRequests.size + this.queuedRequests.length,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * TSGo 是否声明了指定的服务器能力（如 renameProvider）
+   */
+  hasCapability(name: string): boolean {
+    return !!this.serverCapabilities[name];
+  }
+
+  /**
+   * 监听 TSGo 崩溃后重启完成（文档已重新打开）
+   */
+  onDidRecover(listener: () => void): { dispose(): void } {
+    this.recoverListeners.add(listener);
+    return { dispose: () => this.recoverListeners.delete(listener) };
+  }
+
+  /**
+   * 监听崩溃循环：短时间内崩溃次数超过上限，已停止自动重启
+   */
+  onDidCrashLoop(listener: (message: string) => void): { dispose(): void } {
+    this.crashLoopListeners.add(listener);
+    return { dispose: () => this.crashLoopListeners.delete(listener) };
   }
 
   /**
    * 提供定义信息
    */
-  async provideDefinition(context: any, position: any): Promise<any> {
-    Logger.debug("TSGo 后端: 提供定义", { context, position });
+  async provideDefinition(
+    uri: string,
+    position: { line: number; character: number },
+    token?: CancellationToken
+  ): Promise<any> {
+    logger.debug("TSGo 后端: 提供定义", { uri, position });
 
     try {
-      // 首先打开文档
-      await this.openDocument(context.document);
-
-      // 发送定义请求
-      const result = await this.sendRequest("textDocument/definition", {
-        textDocument: { uri: context.document.uri },
-        position: { line: position.line, character: position.character },
-      });
+      const result = await this.sendRequest(
+        "textDocument/definition",
+        {
+          textDocument: { uri },
+          position: { line: position.line, character: position.character },
+        },
+        token
+      );
 
-      Logger.debug("TSGo 定义结果:", result);
+      logger.debug("TSGo 定义结果:", result);
       return result;
     } catch (error) {
-      Logger.error("TSGo 提供定义失败:", error);
+      logRequestError("TSGo 提供定义失败:", error);
       return null;
     }
   }
@@ -140,55 +475,507 @@ export class TsgoBackend {
   /**
    * 提供悬停信息
    */
-  async provideHover(context: any, position: any): Promise<any> {
+  async provideHover(
+    uri: string,
+    position: { line: number; character: number },
+    token?: CancellationToken
+  ): Promise<any> {
     try {
-      if (!context?.document) {
-        Logger.error("TSGo Hover: 缺少 document");
-        return null;
-      }
-
-      await this.openDocument(context.document);
-
       const params = {
-        textDocument: { uri: context.document.uri },
+        textDocument: { uri },
         position: { line: position.line, character: position.character },
       };
 
-      const result = await this.sendRequest("textDocument/hover", params);
-      Logger.debug("TSGo Hover 结果", {
-        uri: context.document.uri,
+      const result = await this.sendRequest(
+        "textDocument/hover",
+        params,
+        token
+      );
+      logger.debug("TSGo Hover 结果", {
+        uri,
         hasResult: !!result,
       });
       return result;
     } catch (error) {
-      Logger.error("TSGo 提供悬停失败:", error);
+      logRequestError("TSGo 提供悬停失败:", error);
       return null;
     }
   }
 
   /**
-   * 打开文档到 TSGo
+   * 提供补全列表
    */
-  private async openDocument(document: any): Promise<void> {
-    await this.sendNotification("textDocument/didOpen", {
-      textDocument: {
-        uri: document.uri,
-        languageId: "typescript",
-        version: document.version || 1,
-        text: document.getText(),
-      },
+  async provideCompletion(
+    uri: string,
+    position: { line: number; character: number },
+    context?: { triggerKind: number; triggerCharacter?: string },
+    token?: CancellationToken
+  ): Promise<any> {
+    try {
+      const result = await this.sendRequest(
+        "textDocument/completion",
+        {
+          textDocument: { uri },
+          position: { line: position.line, character: position.character },
+          context,
+        },
+        token
+      );
+      logger.debug("TSGo 补全结果", {
+        uri,
+        count: Array.isArray(result) ? result.length : result?.items?.length,
+      });
+      return result;
+    } catch (error) {
+      logRequestError("TSGo 提供补全失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 解析补全项详情（文档、自动导入的附加编辑等）
+   */
+  async resolveCompletionItem(
+    item: any,
+    token?: CancellationToken
+  ): Promise<any> {
+    try {
+      return await this.sendRequest("completionItem/resolve", item, token);
+    } catch (error) {
+      logRequestError("TSGo 解析补全项失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 提供函数签名帮助
+   */
+  async provideSignatureHelp(
+    uri: string,
+    position: { line: number; character: number },
+    context?: any,
+    token?: CancellationToken
+  ): Promise<any> {
+    try {
+      const result = await this.sendRequest(
+        "textDocument/signatureHelp",
+        {
+          textDocument: { uri },
+          position: { line: position.line, character: position.character },
+          context,
+        },
+        token
+      );
+      logger.debug("TSGo 签名帮助结果", {
+        uri,
+        count: result?.signatures?.length,
+      });
+      return result;
+    } catch (error) {
+      logRequestError("TSGo 提供签名帮助失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 查找引用
+   */
+  async provideReferences(
+    uri: string,
+    position: { line: number; character: number },
+    includeDeclaration: boolean,
+    token?: CancellationToken
+  ): Promise<any[] | null> {
+    try {
+      const result = await this.sendRequest(
+        "textDocument/references",
+        {
+          textDocument: { uri },
+          position: { line: position.line, character: position.character },
+          context: { includeDeclaration },
+        },
+        token
+      );
+      logger.debug("TSGo 引用结果", { uri, count: result?.length });
+      return result;
+    } catch (error) {
+      logRequestError("TSGo 查找引用失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 检查位置是否可以重命名，返回可重命名的范围
+   */
+  async prepareRename(
+    uri: string,
+    position: { line: number; character: number },
+    token?: CancellationToken
+  ): Promise<any> {
+    try {
+      return await this.sendRequest(
+        "textDocument/prepareRename",
+        {
+          textDocument: { uri },
+          position: { line: position.line, character: position.character },
+        },
+        token
+      );
+    } catch (error) {
+      logRequestError("TSGo 检查重命名失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 重命名，返回 WorkspaceEdit
+   */
+  async provideRename(
+    uri: string,
+    position: { line: number; character: number },
+    newName: string,
+    token?: CancellationToken
+  ): Promise<any> {
+    try {
+      return await this.sendRequest(
+        "textDocument/rename",
+        {
+          textDocument: { uri },
+          position: { line: position.line, character: position.character },
+          newName,
+        },
+        token
+      );
+    } catch (error) {
+      logRequestError("TSGo 重命名失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 文档内高亮（同一符号的读写位置）
+   */
+  async provideDocumentHighlights(
+    uri: string,
+    position: { line: number; character: number },
+    token?: CancellationToken
+  ): Promise<any[] | null> {
+    try {
+      return await this.sendRequest(
+        "textDocument/documentHighlight",
+        {
+          textDocument: { uri },
+          position: { line: position.line, character: position.character },
+        },
+        token
+      );
+    } catch (error) {
+      logRequestError("TSGo 提供文档高亮失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 语义标记，返回 LSP 编码的数据及 TSGo 声明的图例
+   * 传入范围且 TSGo 支持范围请求时只请求该范围，否则请求整个文件
+   */
+  async provideSemanticTokens(
+    uri: string,
+    range?: {
+      start: { line: number; character: number };
+      end: { line: number; character: number };
+    },
+    token?: CancellationToken
+  ): Promise<{
+    data: number[];
+    legend: { tokenTypes: string[]; tokenModifiers: string[] };
+  } | null> {
+    const provider = this.serverCapabilities.semanticTokensProvider;
+    const useRange = !!range && !!provider?.range;
+    try {
+      const result = await this.sendRequest(
+        useRange
+          ? "textDocument/semanticTokens/range"
+          : "textDocument/semanticTokens/full",
+        useRange ? { textDocument: { uri }, range } : { textDocument: { uri } },
+        token
+      );
+      if (!result?.data || !provider?.legend) {
+        return null;
+      }
+      return { data: result.data, legend: provider.legend };
+    } catch (error) {
+      logRequestError("TSGo 提供语义标记失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 代码操作（快速修复、重构、整理导入等）
+   */
+  async provideCodeActions(
+    uri: string,
+    range: {
+      start: { line: number; character: number };
+      end: { line: number; character: number };
+    },
+    context: { diagnostics: any[]; only?: string[]; triggerKind?: number },
+    token?: CancellationToken
+  ): Promise<any[] | null> {
+    try {
+      const result = await this.sendRequest(
+        "textDocument/codeAction",
+        { textDocument: { uri }, range, context },
+        token
+      );
+      logger.debug("TSGo 代码操作结果", { uri, count: result?.length });
+      return result;
+    } catch (error) {
+      logRequestError("TSGo 提供代码操作失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 解析代码操作的编辑内容
+   */
+  async resolveCodeAction(action: any, token?: CancellationToken): Promise<any> {
+    if (!this.serverCapabilities.codeActionProvider?.resolveProvider) {
+      return action;
+    }
+    try {
+      return await this.sendRequest("codeAction/resolve", action, token);
+    } catch (error) {
+      logRequestError("TSGo 解析代码操作失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 内联提示（参数名、推断类型等）
+   */
+  async provideInlayHints(
+    uri: string,
+    range: {
+      start: { line: number; character: number };
+      end: { line: number; character: number };
+    },
+    token?: CancellationToken
+  ): Promise<any[] | null> {
+    try {
+      return await this.sendRequest(
+        "textDocument/inlayHint",
+        { textDocument: { uri }, range },
+        token
+      );
+    } catch (error) {
+      logRequestError("TSGo 提供内联提示失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 发送任意请求并返回 TSGo 的原始结果（用于协议回放）
+   */
+  async request(
+    method: string,
+    params: any,
+    token?: CancellationToken
+  ): Promise<any> {
+    return this.sendRequest(method, params, token);
+  }
+
+  /**
+   * 转发文件变化（workspace/didChangeWatchedFiles），让 TSGo 重新读取磁盘上的文件
+   * 已打开的文档以同步的内容为准，不受影响
+   */
+  async didChangeWatchedFiles(
+    changes: { uri: string; type: number }[]
+  ): Promise<void> {
+    if (!this.isRunning() || !changes.length) {
+      return;
+    }
+    await this.sendNotification("workspace/didChangeWatchedFiles", {
+      changes,
+    });
+  }
+
+  /**
+   * 配置变化后通知 TSGo 重新读取 TypeScript 设置（如内联提示选项）
+   */
+  async notifyConfigurationChanged(): Promise<void> {
+    if (!this.isRunning()) {
+      // 尚未就绪时无需通知，初始化完成后会发送最新配置
+      return;
+    }
+    await this.sendConfiguration();
+  }
+
+  /**
+   * 提供诊断信息
+   * TSGo 支持拉取模式时主动请求，否则使用其推送的最新诊断
+   */
+  async provideDiagnostics(
+    uri: string,
+    token?: CancellationToken
+  ): Promise<any[]> {
+    if (!this.serverCapabilities.diagnosticProvider) {
+      return this.publishedDiagnostics.get(uri) ?? [];
+    }
+
+    try {
+      return await this.pullDiagnostics(uri, token);
+    } catch (error) {
+      logRequestError("TSGo 提供诊断失败:", error);
+      return this.publishedDiagnostics.get(uri) ?? [];
+    }
+  }
+
+  /**
+   * 获取诊断信息，失败时抛出错误（命令行检查不能把失败当作没有错误）
+   * TSGo 不支持拉取模式时等待其推送该文档的诊断
+   */
+  async requestDiagnostics(
+    uri: string,
+    token?: CancellationToken
+  ): Promise<any[]> {
+    if (this.serverCapabilities.diagnosticProvider) {
+      return this.pullDiagnostics(uri, token);
+    }
+    return this.waitForPublishedDiagnostics(uri);
+  }
+
+  private async pullDiagnostics(
+    uri: string,
+    token?: CancellationToken
+  ): Promise<any[]> {
+    const result = await this.sendRequest(
+      "textDocument/diagnostic",
+      { textDocument: { uri } },
+      token
+    );
+    logger.debug("TSGo 诊断结果", {
+      uri,
+      count: result?.items?.length,
+    });
+    return result?.kind === "full" ? result.items : [];
+  }
+
+  /**
+   * 等待 TSGo 推送文档的诊断，已推送过时直接返回
+   */
+  private waitForPublishedDiagnostics(uri: string): Promise<any[]> {
+    const published = this.publishedDiagnostics.get(uri);
+    if (published) {
+      return Promise.resolve(published);
+    }
+
+    // 与拉取诊断使用同一超时配置
+    const timeout = ServerConfigManager.getRequestTimeout(
+      "textDocument/diagnostic"
+    );
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        listener.dispose();
+        reject(new Error(`等待 TSGo 推送诊断超时: ${uri}（${timeout}ms）`));
+      }, timeout);
+      const listener = this.onDidPublishDiagnostics((published) => {
+        if (published === uri) {
+          clearTimeout(timer);
+          listener.dispose();
+          resolve(this.publishedDiagnostics.get(uri) ?? []);
+        }
+      });
+    });
+  }
+
+  /**
+   * 监听 TSGo 推送的诊断更新
+   */
+  onDidPublishDiagnostics(listener: (uri: string) => void): {
+    dispose(): void;
+  } {
+    this.diagnosticsListeners.add(listener);
+    return { dispose: () => this.diagnosticsListeners.delete(listener) };
+  }
+
+  /**
+   * 同步文档内容到 TSGo
+   * 首次调用发送 didOpen，之后内容变化时发送增量 didChange 并递增版本号
+   */
+  async syncDocument(
+    uri: string,
+    languageId: string,
+    text: string
+  ): Promise<void> {
+    const current = this.openDocuments.get(uri);
+    this.lastActivity = Date.now();
+    this.wake();
+
+    // 启动或重启期间只记录最新内容，就绪后统一打开
+    if (this.isStarting()) {
+      this.openDocuments.set(
+        uri,
+        current && current.getText() !== text
+          ? TextDocument.create(uri, languageId, current.version + 1, text)
+          : current ?? TextDocument.create(uri, languageId, 1, text)
+      );
+      return;
+    }
+
+    // 先记录再发送，避免并发同步同一文档时重复发送 didOpen 或基于旧版本计算增量
+    if (!current) {
+      const document = TextDocument.create(uri, languageId, 1, text);
+      this.openDocuments.set(uri, document);
+      await this.sendNotification("textDocument/didOpen", {
+        textDocument: {
+          uri,
+          languageId,
+          version: document.version,
+          text,
+        },
+      });
+      return;
+    }
+
+    const oldText = current.getText();
+    if (oldText === text) {
+      return;
+    }
+
+    const change = computeIncrementalChange(current, oldText, text);
+    const next = TextDocument.update(current, [change], current.version + 1);
+    this.openDocuments.set(uri, next);
+
+    await this.sendNotification("textDocument/didChange", {
+      textDocument: { uri, version: next.version },
+      contentChanges: [change],
     });
   }
 
   /**
    * 关闭文档
    */
-  private async closeDocument(documentUri: string): Promise<void> {
+  async closeDocument(documentUri: string): Promise<void> {
+    if (!this.openDocuments.delete(documentUri)) {
+      return;
+    }
+    this.publishedDiagnostics.delete(documentUri);
+    if (this.isStarting() || this.state === "idle") {
+      return;
+    }
     await this.sendNotification("textDocument/didClose", {
       textDocument: { uri: documentUri },
     });
   }
 
+  /**
+   * 获取已同步到 TSGo 的文档
+   */
+  getDocument(uri: string): TextDocument | undefined {
+    return this.openDocuments.get(uri);
+  }
+
   /**
    * 初始化 LSP 连接
    */
@@ -199,19 +986,123 @@ export class TsgoBackend {
         name: "vue-tsgo-bridge",
         version: "1.0.0",
       },
-      rootUri: null,
+      rootUri: this.folder ? URI.file(this.folder).toString() : null,
+      workspaceFolders: this.folder
+        ? [
+            {
+              uri: URI.file(this.folder).toString(),
+              name: path.basename(this.folder),
+            },
+          ]
+        : null,
       capabilities: {
         textDocument: {
+          synchronization: { didSave: false, dynamicRegistration: false },
           definition: { linkSupport: true },
           hover: { contentFormat: ["markdown", "plaintext"] },
+          completion: {
+            contextSupport: true,
+            completionItem: {
+              snippetSupport: true,
+              insertReplaceSupport: true,
+              labelDetailsSupport: true,
+              documentationFormat: ["markdown", "plaintext"],
+              resolveSupport: {
+                properties: ["documentation", "detail", "additionalTextEdits"],
+              },
+            },
+          },
+          signatureHelp: {
+            contextSupport: true,
+            signatureInformation: {
+              documentationFormat: ["markdown", "plaintext"],
+              parameterInformation: { labelOffsetSupport: true },
+              activeParameterSupport: true,
+            },
+          },
+          publishDiagnostics: {
+            relatedInformation: true,
+            codeDescriptionSupport: true,
+          },
+          diagnostic: { dynamicRegistration: false },
+          references: {},
+          rename: { prepareSupport: true },
+          documentHighlight: {},
+          semanticTokens: {
+            requests: { range: true, full: true },
+            tokenTypes: [
+              "namespace",
+              "class",
+              "enum",
+              "interface",
+              "typeParameter",
+              "type",
+              "parameter",
+              "variable",
+              "property",
+              "enumMember",
+              "function",
+              "method",
+            ],
+            tokenModifiers: [
+              "declaration",
+              "readonly",
+              "static",
+              "async",
+              "defaultLibrary",
+              "local",
+            ],
+            formats: ["relative"],
+            overlappingTokenSupport: false,
+            multilineTokenSupport: false,
+          },
+          codeAction: {
+            codeActionLiteralSupport: {
+              codeActionKind: {
+                valueSet: [
+                  "quickfix",
+                  "refactor",
+                  "refactor.extract",
+                  "refactor.inline",
+                  "refactor.rewrite",
+                  "source",
+                  "source.organizeImports",
+                  "source.fixAll",
+                ],
+              },
+            },
+            isPreferredSupport: true,
+            dataSupport: true,
+            resolveSupport: { properties: ["edit"] },
+          },
+          inlayHint: {},
+        },
+        workspace: {
+          configuration: true,
+          didChangeConfiguration: { dynamicRegistration: false },
+          didChangeWatchedFiles: { dynamicRegistration: true },
         },
       },
     };
 
-    const result = await this.sendRequest("initialize", initializeParams);
-    Logger.debug("TSGo 初始化结果:", result);
+    const result = await this.requestNow("initialize", initializeParams);
+    logger.debug("TSGo 初始化结果:", result);
+    this.serverCapabilities = result?.capabilities ?? {};
 
     await this.sendNotification("initialized", {});
+    await this.sendConfiguration();
+  }
+
+  /**
+   * 发送 TypeScript 设置，目前只有内联提示会读取，TSGo 不支持时跳过
+   */
+  private async sendConfiguration(): Promise<void> {
+    if (!this.hasCapability("inlayHintProvider")) {
+      return;
+    }
+    await this.sendNotification("workspace/didChangeConfiguration", {
+      settings: getTypeScriptSettings(),
+    });
   }
 
   /**
@@ -222,30 +1113,32 @@ export class TsgoBackend {
       throw new Error("TSGo 进程未正确启动");
     }
 
-    let buffer = "";
+    // Content-Length 以字节计，必须按 Buffer 处理，否则非 ASCII 内容会错位
+    let buffer = Buffer.alloc(0);
 
     this.tsgoProcess.stdout.on("data", (data: Buffer) => {
-      buffer += data.toString();
+      buffer = Buffer.concat([buffer, data]);
 
-      // 处理 LSP 消息（每个消息以 \r\n\r\n 分隔）
+      // 处理 LSP 消息（头部与内容以 \r\n\r\n 分隔）
       let index;
       while ((index = buffer.indexOf("\r\n\r\n")) !== -1) {
-        const headerStr = buffer.substring(0, index);
+        const headerStr = buffer.toString("ascii", 0, index);
         const headers = this.parseHeaders(headerStr);
         const contentLength = parseInt(headers["content-length"] || "0");
 
         if (buffer.length >= index + 4 + contentLength) {
-          const content = buffer.substring(
+          const content = buffer.toString(
+            "utf8",
             index + 4,
             index + 4 + contentLength
           );
-          buffer = buffer.substring(index + 4 + contentLength);
+          buffer = buffer.subarray(index + 4 + contentLength);
 
           try {
             const message = JSON.parse(content);
             this.handleMessage(message);
           } catch (error) {
-            Logger.error("解析 TSGo 消息失败:", error);
+            logger.error("解析 TSGo 消息失败:", error);
           }
         } else {
           break;
@@ -253,14 +1146,290 @@ export class TsgoBackend {
       }
     });
 
+    // TSGo 将运行日志写入 stderr
     this.tsgoProcess.stderr?.on("data", (data: Buffer) => {
-      Logger.error("TSGo 错误输出:", data.toString());
+      const text = data.toString();
+      this.stderrTail = (this.stderrTail + text).slice(-STDERR_TAIL_LENGTH);
+      logger.debug("TSGo 日志输出:", text);
+    });
+
+    const tsgoProcess = this.tsgoProcess;
+    tsgoProcess.on("error", (error) => {
+      // 启动阶段的错误由 launch 报告
+      if (this.state !== "starting") {
+        logger.error("TSGo 进程错误:", error);
+      }
+    });
+    // 进程退出后写入 stdin 会产生 EPIPE，退出由 exit 事件统一处理
+    tsgoProcess.stdin?.on("error", (error) => {
+      logger.debug("写入 TSGo 失败:", error.message);
+    });
+    tsgoProcess.on("exit", (code, signal) => {
+      // 忽略已被替换的旧进程
+      if (tsgoProcess === this.tsgoProcess) {
+        this.handleProcessExit(code, signal);
+      }
+    });
+  }
+
+  /**
+   * 处理 TSGo 进程退出
+   * 受监督时保留文档状态并安排重启，处理中的请求在重启后重发一次
+   */
+  private handleProcessExit(code: number | null, signal: string | null): void {
+    const wasReady = this.state === "ready";
+    logger.warn("TSGo 进程退出", { code, signal });
+    this.tsgoProcess = undefined;
+    this.setState("stopped");
+    this.publishedDiagnostics.clear();
+
+    const error = new Error(
+      wasReady
+        ? "TSGo 进程已退出"
+        : this.withStderr(`TSGo 进程在就绪前退出: code=${code}, signal=${signal}`)
+    );
+    for (const request of this.takePendingRequests()) {
+      if (
+        this.supervised &&
+        !request.retried &&
+        !NON_RETRYABLE_METHODS.has(request.method)
+      ) {
+        request.retried = true;
+        this.queuedRequests.push(request);
+      } else {
+        request.reject(error);
+      }
+    }
+
+    if (!this.supervised) {
+      this.openDocuments.clear();
+      return;
+    }
+
+    // 重启流程中的进程退出由 recover 处理
+    if (!this.recovering) {
+      this.recovering = true;
+      this.scheduleRestart();
+    }
+  }
+
+  /**
+   * 按指数退避安排重启，超过崩溃次数上限时放弃
+   */
+  private scheduleRestart(): void {
+    const now = Date.now();
+    this.crashTimes = this.crashTimes.filter(
+      (time) => now - time < CRASH_WINDOW
+    );
+    this.crashTimes.push(now);
+
+    if (this.crashTimes.length > MAX_RESTARTS) {
+      this.giveUpRestart();
+      return;
+    }
+
+    const delay = Math.min(
+      RESTART_BASE_DELAY * 2 ** (this.crashTimes.length - 1),
+      RESTART_MAX_DELAY
+    );
+    logger.log(`TSGo 将在 ${delay}ms 后重启`, {
+      attempt: this.crashTimes.length,
     });
 
-    this.tsgoProcess.on("exit", (code) => {
-      Logger.warn("TSGo 进程退出，代码:", code);
-      this.tsgoProcess = undefined;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = undefined;
+      this.recover();
+    }, delay);
+  }
+
+  /**
+   * 重启 TSGo，重新打开已跟踪的文档并重发中断的请求
+   */
+  private async recover(): Promise<void> {
+    try {
+      await this.launch();
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      logger.error("TSGo 重启失败", error);
+      this.killProcess();
+      this.setState("stopped");
+      if (this.supervised) {
+        this.scheduleRestart();
+      }
+      return;
+    }
+
+    if (!this.supervised) {
+      // 重启期间被主动停止
+      this.killProcess();
+      this.setState("stopped");
+      return;
+    }
+    this.recovering = false;
+
+    logger.log("TSGo 已恢复", { documents: this.openDocuments.size });
+
+    for (const listener of this.recoverListeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error("处理 TSGo 恢复事件失败:", error);
+      }
+    }
+  }
+
+  /**
+   * 崩溃过于频繁，停止自动重启并通知使用方
+   */
+  private giveUpRestart(): void {
+    const message = `TSGo 在 ${CRASH_WINDOW / 60000} 分钟内崩溃超过 ${MAX_RESTARTS} 次，已停止自动重启`;
+    logger.error(message);
+
+    this.supervised = false;
+    this.recovering = false;
+    this.stopMonitor();
+    this.lastError = message;
+    this.openDocuments.clear();
+    this.rejectQueuedRequests(new Error(message));
+
+    for (const listener of this.crashLoopListeners) {
+      try {
+        listener(message);
+      } catch (error) {
+        logger.error("处理 TSGo 崩溃通知失败:", error);
+      }
+    }
+  }
+
+  /**
+   * 定期检查空闲时间与内存占用（配置在每次检查时读取，修改后无需重启）
+   */
+  private startMonitor(): void {
+    this.stopMonitor();
+    this.lastActivity = Date.now();
+    this.monitorTimer = setInterval(() => {
+      this.checkResources().catch((error) =>
+        logger.error("检查 TSGo 资源占用失败", error)
+      );
+    }, MONITOR_INTERVAL);
+    this.monitorTimer.unref();
+  }
+
+  private stopMonitor(): void {
+    if (this.monitorTimer) {
+      clearInterval(this.monitorTimer);
+      this.monitorTimer = undefined;
+    }
+  }
+
+  /**
+   * 空闲超时后停止进程；内存超过上限时重启进程
+   * 只在没有处理中的请求时进行，避免打断正在进行的操作
+   */
+  private async checkResources(): Promise<void> {
+    if (this.state !== "ready" || this.pendingRequests.size) {
+      return;
+    }
+
+    const idleTimeout = ServerConfigManager.getIdleTimeout();
+    if (idleTimeout && Date.now() - this.lastActivity >= idleTimeout) {
+      logger.log("TSGo 空闲超时，停止进程", {
+        folder: this.folder,
+        idleMinutes: idleTimeout / 60000,
+      });
+      this.suspend();
+      return;
+    }
+
+    const memoryLimit = ServerConfigManager.getMemoryLimit();
+    const tsgoProcess = this.tsgoProcess;
+    if (!memoryLimit || tsgoProcess?.pid === undefined) {
+      return;
+    }
+    const rss = await readProcessMemory(tsgoProcess.pid);
+    // 读取期间进程可能已被替换或停止
+    if (
+      rss === undefined ||
+      rss <= memoryLimit ||
+      tsgoProcess !== this.tsgoProcess ||
+      this.state !== "ready"
+    ) {
+      return;
+    }
+    logger.warn("TSGo 内存占用超过上限，重启进程", {
+      folder: this.folder,
+      rss,
+      memoryLimit,
     });
+    this.suspend();
+    this.wake();
+  }
+
+  /**
+   * 停止 TSGo 进程但保留已打开的文档，处理中的请求转入队列，
+   * 之后由 wake 重新启动并重新打开文档
+   */
+  private suspend(): void {
+    this.killProcess();
+    this.setState("idle");
+    this.publishedDiagnostics.clear();
+
+    this.queuedRequests.push(...this.takePendingRequests());
+  }
+
+  /**
+   * 空闲停止后收到请求或文档变化时重新启动
+   * 复用崩溃重启流程：启动期间的请求排队，就绪后重新打开文档
+   */
+  private wake(): void {
+    if (this.state !== "idle") {
+      return;
+    }
+    logger.log("重新启动空闲的 TSGo", { folder: this.folder });
+    this.recovering = true;
+    this.recover();
+  }
+
+  /**
+   * 结束当前 TSGo 进程（不触发重启）
+   */
+  private killProcess(): void {
+    const tsgoProcess = this.tsgoProcess;
+    this.tsgoProcess = undefined;
+    tsgoProcess?.kill();
+  }
+
+  private setState(state: TsgoBackendState): void {
+    if (this.state !== state) {
+      logger.debug(`TSGo 状态: ${this.state} → ${state}`);
+      this.state = state;
+    }
+  }
+
+  /**
+   * 是否处于启动或崩溃重启流程中（请求和文档同步需要等待就绪）
+   */
+  private isStarting(): boolean {
+    return (
+      this.state === "starting" ||
+      this.state === "initializing" ||
+      this.recovering
+    );
+  }
+
+  private rejectQueuedRequests(error: unknown): void {
+    for (const { reject } of this.queuedRequests) {
+      reject(error);
+    }
+    this.queuedRequests = [];
+  }
+
+  /**
+   * 在错误信息后附加 TSGo 最近的 stderr 输出
+   */
+  private withStderr(message: string): string {
+    const stderr = this.stderrTail.trim();
+    return stderr ? `${message}\nTSGo stderr:\n${stderr}` : message;
   }
 
   /**
@@ -281,52 +1450,224 @@ export class TsgoBackend {
    * 处理来自 TSGo 的消息
    */
   private handleMessage(message: any): void {
-    Logger.debug("收到 TSGo 消息:", message);
-
-    if (message.id !== undefined && this.pendingRequests.has(message.id)) {
-      const { resolve, reject } = this.pendingRequests.get(message.id)!;
-      this.pendingRequests.delete(message.id);
+    this.recorder?.record({
+      type: "message",
+      time: new Date().toISOString(),
+      direction: "receive",
+      message,
+    });
+    logMessage("收到 TSGo 消息", message);
 
+    const request =
+      message.id !== undefined
+        ? this.takePendingRequest(message.id)
+        : undefined;
+    if (request) {
+      const { resolve, reject } = request;
       if (message.error) {
         reject(new Error(message.error.message || "TSGo 请求失败"));
       } else {
         resolve(message.result);
       }
+      return;
+    }
+
+    if (message.method && message.id === undefined) {
+      this.handleNotification(message.method, message.params);
+    } else if (message.method) {
+      this.handleServerRequest(message.id, message.method, message.params);
     }
   }
 
   /**
-   * 发送请求到 TSGo
+   * 响应来自 TSGo 的请求，未支持的请求返回 null，避免 TSGo 一直等待
    */
-  private async sendRequest(method: string, params: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      if (!this.tsgoProcess || !this.tsgoProcess.stdin) {
-        reject(new Error("TSGo 进程未运行"));
-        return;
+  private handleServerRequest(
+    id: number | string,
+    method: string,
+    params: any
+  ): void {
+    let result: any = null;
+    if (method === "workspace/configuration") {
+      const settings = getTypeScriptSettings();
+      result = (params?.items ?? []).map(
+        (item: { section?: string }) =>
+          (item.section && settings[item.section]) ?? null
+      );
+    }
+
+    try {
+      this.sendMessage({ jsonrpc: "2.0", id, result });
+    } catch (error) {
+      logger.debug("响应 TSGo 请求失败:", { method, error });
+    }
+  }
+
+  /**
+   * 处理来自 TSGo 的通知
+   */
+  private handleNotification(method: string, params: any): void {
+    switch (method) {
+      case "textDocument/publishDiagnostics": {
+        this.publishedDiagnostics.set(params.uri, params.diagnostics ?? []);
+        for (const listener of this.diagnosticsListeners) {
+          try {
+            listener(params.uri);
+          } catch (error) {
+            logger.error("处理 TSGo 诊断更新失败:", error);
+          }
+        }
+        break;
       }
+    }
+  }
 
-      const id = ++this.requestId;
-      this.pendingRequests.set(id, { resolve, reject });
+  /**
+   * 发送请求到 TSGo
+   */
+  private async sendRequest(
+    method: string,
+    params: any,
+    token?: CancellationToken
+  ): Promise<any> {
+    if (token?.isCancellationRequested) {
+      throw createCancelledError(method);
+    }
 
-      const message = {
-        jsonrpc: "2.0",
-        id,
+    return new Promise((resolve, reject) => {
+      let subscription: { dispose(): void } | undefined;
+      const request: PendingRequest = {
         method,
         params,
+        resolve: (value) => {
+          subscription?.dispose();
+          resolve(value);
+        },
+        reject: (error) => {
+          subscription?.dispose();
+          reject(error);
+        },
+        retried: false,
       };
+      subscription = token?.onCancellationRequested(() =>
+        this.cancelRequest(request)
+      );
 
-      this.sendMessage(message);
+      this.lastActivity = Date.now();
+      this.wake();
+      if (this.state === "ready") {
+        this.dispatchRequest(request);
+      } else if (this.isStarting()) {
+        // TSGo 就绪前发出的请求排队等待
+        this.queuedRequests.push(request);
+      } else {
+        request.reject(new Error("TSGo 进程未运行"));
+      }
+    });
+  }
 
-      // 设置超时
-      setTimeout(() => {
-        if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error("TSGo 请求超时"));
-        }
-      }, 30000); // 30秒超时
+  /**
+   * 取消请求：仍在排队的直接移除，已发送的通知 TSGo 放弃处理
+   */
+  private cancelRequest(request: PendingRequest): void {
+    const queued = this.queuedRequests.indexOf(request);
+    if (queued !== -1) {
+      this.queuedRequests.splice(queued, 1);
+    } else if (
+      request.id !== undefined &&
+      this.pendingRequests.get(request.id) === request
+    ) {
+      this.takePendingRequest(request.id);
+      this.sendNotification("$/cancelRequest", { id: request.id }).catch(
+        () => {}
+      );
+    } else {
+      return;
+    }
+
+    logger.debug(`TSGo 请求已取消: ${request.method}`, { id: request.id });
+    request.reject(createCancelledError(request.method));
+  }
+
+  /**
+   * 不等待就绪直接发送请求，仅用于 initialize / shutdown 等生命周期请求
+   */
+  private async requestNow(method: string, params: any): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.dispatchRequest({ method, params, resolve, reject, retried: false });
     });
   }
 
+  /**
+   * 分配请求 ID 并写入 TSGo（崩溃重发时会以新的 ID 再次调用）
+   */
+  private dispatchRequest(request: PendingRequest): void {
+    if (!this.tsgoProcess || !this.tsgoProcess.stdin) {
+      request.reject(new Error("TSGo 进程未运行"));
+      return;
+    }
+
+    // TSGo 未声明对应能力时不发送请求，视为无结果
+    const capability = METHOD_CAPABILITIES[request.method];
+    if (capability && !this.hasCapability(capability)) {
+      logger.debug(`TSGo 不支持 ${request.method}，已跳过`);
+      request.resolve(null);
+      return;
+    }
+
+    const id = ++this.requestId;
+    request.id = id;
+    this.pendingRequests.set(id, request);
+
+    // TSGo 要求无参数的请求（如 shutdown）不携带 params 字段
+    const message = {
+      jsonrpc: "2.0",
+      id,
+      method: request.method,
+      ...(request.params != null ? { params: request.params } : {}),
+    };
+
+    this.sendMessage(message);
+
+    // 设置超时，超时后同样通知 TSGo 放弃处理
+    const timeout = ServerConfigManager.getRequestTimeout(request.method);
+    request.timer = setTimeout(() => {
+      if (this.pendingRequests.get(id) === request) {
+        this.takePendingRequest(id);
+        this.sendNotification("$/cancelRequest", { id }).catch(() => {});
+        request.reject(
+          new Error(`TSGo 请求超时: ${request.method}（${timeout}ms）`)
+        );
+      }
+    }, timeout);
+  }
+
+  /**
+   * 移除已发送的请求并清除其超时计时器
+   */
+  private takePendingRequest(id: number): PendingRequest | undefined {
+    const request = this.pendingRequests.get(id);
+    if (request) {
+      this.pendingRequests.delete(id);
+      clearTimeout(request.timer);
+      request.timer = undefined;
+    }
+    return request;
+  }
+
+  /**
+   * 移除全部已发送的请求（停止、崩溃或挂起时）并清除超时计时器
+   */
+  private takePendingRequests(): PendingRequest[] {
+    const requests = [...this.pendingRequests.values()];
+    for (const request of requests) {
+      clearTimeout(request.timer);
+      request.timer = undefined;
+    }
+    this.pendingRequests.clear();
+    return requests;
+  }
+
   /**
    * 发送通知到 TSGo
    */
@@ -338,7 +1679,7 @@ export class TsgoBackend {
     const message = {
       jsonrpc: "2.0",
       method,
-      params,
+      ...(params != null ? { params } : {}),
     };
 
     this.sendMessage(message);
@@ -352,11 +1693,157 @@ export class TsgoBackend {
       throw new Error("TSGo 进程未运行");
     }
 
+    this.recorder?.record({
+      type: "message",
+      time: new Date().toISOString(),
+      direction: "send",
+      message,
+    });
     const content = JSON.stringify(message);
     const header = `Content-Length: ${Buffer.byteLength(content)}\r\n\r\n`;
     const fullMessage = header + content;
 
-    Logger.debug("发送消息到 TSGo:", message);
+    logMessage("发送消息到 TSGo", message);
     this.tsgoProcess.stdin.write(fullMessage);
   }
 }
+
+/**
+ * 按 VS Code 的 typescript / javascript 设置结构生成发送给 TSGo 的配置
+ */
+function getTypeScriptSettings(): Record<string, any> {
+  const inlayHints = ServerConfigManager.getInlayHintsConfig();
+  const settings = {
+    inlayHints: {
+      parameterNames: {
+        enabled: inlayHints.parameterNames.enabled,
+        suppressWhenArgumentMatchesName: true,
+      },
+      variableTypes: {
+        enabled: inlayHints.variableTypes.enabled,
+        suppressWhenTypeMatchesName: true,
+      },
+      functionLikeReturnTypes: {
+        enabled: inlayHints.functionLikeReturnTypes.enabled,
+      },
+    },
+  };
+  return { typescript: settings, javascript: settings };
+}
+
+/**
+ * 计算新旧文本之间的最小增量变更（公共前缀/后缀之外的部分）
+ */
+function computeIncrementalChange(
+  document: TextDocument,
+  oldText: string,
+  newText: string
+) {
+  let start = 0;
+  const minLength = Math.min(oldText.length, newText.length);
+  while (start < minLength && oldText[start] === newText[start]) {
+    start++;
+  }
+
+  let oldEnd = oldText.length;
+  let newEnd = newText.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldText[oldEnd - 1] === newText[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  return {
+    range: {
+      start: document.positionAt(start),
+      end: document.positionAt(oldEnd),
+    },
+    text: newText.substring(start, newEnd),
+  };
+}
+
+function createCancelledError(method: string) {
+  return new ResponseError(
+    LSPErrorCodes.RequestCancelled,
+    `TSGo 请求已取消: ${method}`
+  );
+}
+
+/**
+ * 是否为请求被取消产生的错误
+ */
+export function isCancellationError(error: unknown): boolean {
+  return (
+    error instanceof ResponseError &&
+    error.code === LSPErrorCodes.RequestCancelled
+  );
+}
+
+/**
+ * 记录请求失败，取消属于正常情况，仅输出调试日志
+ */
+function logRequestError(message: string, error: unknown): void {
+  if (isCancellationError(error)) {
+    logger.debug(message, (error as Error).message);
+  } else {
+    logger.error(message, error);
+  }
+}
+
+/**
+ * 记录与 TSGo 之间的消息：debug 级别只记录方法名，trace 级别记录完整内容
+ */
+function logMessage(text: string, message: any): void {
+  if (!Logger.isEnabled("debug")) {
+    return;
+  }
+  const log =
+    message.id !== undefined ? logger.with({ requestId: message.id }) : logger;
+  if (Logger.isEnabled("trace")) {
+    log.trace(text, message);
+  } else {
+    log.debug(text, { method: message.method, error: message.error?.message });
+  }
+}
+
+/**
+ * 读取进程的常驻内存（RSS，字节），读取失败时返回 undefined
+ */
+async function readProcessMemory(pid: number): Promise<number | undefined> {
+  try {
+    if (process.platform === "linux") {
+      const status = await fs.readFile(`/proc/${pid}/status`, "utf8");
+      const match = /^VmRSS:\s+(\d+)\s+kB/m.exec(status);
+      return match ? Number(match[1]) * 1024 : undefined;
+    }
+    if (process.platform === "win32") {
+      // "tsgo.exe","1234","Console","1","123,456 K"
+      const output = await execFileText("tasklist", [
+        "/FI",
+        `PID eq ${pid}`,
+        "/FO",
+        "CSV",
+        "/NH",
+      ]);
+      const match = /"([\d,.\s\u00a0]+)K"\s*$/m.exec(output);
+      return match ? Number(match[1].replace(/\D/g, "")) * 1024 : undefined;
+    }
+    const output = await execFileText("ps", ["-o", "rss=", "-p", String(pid)]);
+    const kilobytes = parseInt(output.trim());
+    return Number.isNaN(kilobytes) ? undefined : kilobytes * 1024;
+  } catch (error) {
+    logger.debug("读取 TSGo 内存占用失败", (error as Error).message);
+    return undefined;
+  }
+}
+
+function execFileText(file: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: 5000 }, (error, stdout) =>
+      error ? reject(error) : resolve(stdout)
+    );
+  });
+}
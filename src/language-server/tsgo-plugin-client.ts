@@ -1,36 +1,111 @@
-import { TsgoBackend } from "./tsgo-backend";
+import {
+  isCodeActionsEnabled,
+  isCompletionEnabled,
+  isDefinitionEnabled,
+  isHighlightEnabled,
+  isHoverEnabled,
+  isInlayHintsEnabled,
+  isReferencesEnabled,
+  isRenameEnabled,
+  isSemanticTokensEnabled,
+  isSignatureHelpEnabled,
+  resolveRenameEditText,
+  resolveRenameNewName,
+  shouldReportDiagnostics,
+} from "@vue/language-core";
+import * as fs from "fs";
+import * as path from "path";
+import type { CancellationToken } from "vscode-languageserver/node";
+import type { Position, Range } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { ComponentInfoProvider } from "./component-info";
+import { TsgoBackendPool } from "./tsgo-backend-pool";
+import {
+  isQueryFileName,
+  isVirtualFileName,
+  VirtualDocument,
+  VirtualDocumentManager,
+} from "./virtual-documents";
 import { Logger } from "../utils/logger";
+import { ServerConfigManager } from "../utils/server-config";
+
+const logger = Logger.scope("plugin-client");
+
+export type TsgoPluginClient = ReturnType<typeof createTsgoPluginClient>;
+
+/**
+ * 补全项附带的数据，用于 resolve 时还原 TSGo 的原始数据
+ */
+interface TsgoCompletionData {
+  vueTsgo: {
+    uri: string;
+    original: any;
+  };
+}
+
+/**
+ * 文档高亮范围，与 TypeScript 的 HighlightSpan 一致（Vue 语言服务插件按此解析）
+ */
+interface HighlightSpan {
+  fileName: string;
+  textSpan: { start: number; length: number };
+  kind: "none" | "definition" | "reference" | "writtenReference";
+}
+
+/**
+ * 代码操作附带的数据，用于 resolve 时还原 TSGo 的原始数据
+ */
+interface TsgoCodeActionData {
+  vueTsgo: {
+    uri: string;
+    original: any;
+  };
+}
 
 /**
  * TSGo 插件客户端
  * 实现 Vue TypeScript Plugin 的请求接口，将请求转发给 TSGo 后端
  */
-export function createTsgoPluginClient(tsgoBackend: TsgoBackend) {
-  return {
+export function createTsgoPluginClient(
+  tsgoBackend: TsgoBackendPool,
+  virtualDocuments: VirtualDocumentManager
+) {
+  const componentInfo = new ComponentInfoProvider(
+    tsgoBackend,
+    virtualDocuments
+  );
+
+  return traceRequests(tsgoBackend, {
     async getQuickInfoAtPosition(
       fileName: string,
-      position: { line: number; character: number }
+      position: { line: number; character: number },
+      token?: CancellationToken
     ) {
       try {
-        Logger.debug("TSGo Plugin Client: getQuickInfoAtPosition", {
+        logger.debug("TSGo Plugin Client: getQuickInfoAtPosition", {
           fileName,
           position,
         });
 
-        // 创建虚拟的 context 对象
-        const context = {
-          document: {
-            uri: `file://${fileName}`,
-            languageId: "typescript",
-            getText: () => {
-              // 这里可能需要从某个地方获取文件内容
-              // 暂时返回空字符串，实际使用时TSGo会从文件系统读取
-              return "";
-            },
-          },
-        };
+        // 将 .vue 中的位置映射到 TSGo 中的虚拟 TS 文档
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generatedPosition = virtualDocuments.toGeneratedPosition(
+          document,
+          position,
+          isHoverEnabled
+        );
+        if (!generatedPosition) {
+          return undefined;
+        }
 
-        const result = await tsgoBackend.provideHover(context, position);
+        const result = await tsgoBackend.provideHover(
+          document.uri,
+          generatedPosition,
+          token
+        );
 
         if (result && result.contents) {
           // 将 LSP Hover 结果转换为 TypeScript QuickInfo 格式
@@ -39,7 +114,7 @@ export function createTsgoPluginClient(tsgoBackend: TsgoBackend) {
               ? result.contents
               : Array.isArray(result.contents)
               ? result.contents
-                  .map((c) => (typeof c === "string" ? c : c.value))
+                  .map((c: any) => (typeof c === "string" ? c : c.value))
                   .join("\n")
               : result.contents.value;
 
@@ -48,112 +123,1307 @@ export function createTsgoPluginClient(tsgoBackend: TsgoBackend) {
 
         return undefined;
       } catch (error) {
-        Logger.error("TSGo Plugin Client getQuickInfoAtPosition 失败", error);
+        logger.error("TSGo Plugin Client getQuickInfoAtPosition 失败", error);
         return undefined;
       }
     },
 
     async getDefinitionAtPosition(
       fileName: string,
-      position: { line: number; character: number }
+      position: { line: number; character: number },
+      token?: CancellationToken
     ) {
       try {
-        Logger.debug("TSGo Plugin Client: getDefinitionAtPosition", {
+        logger.debug("TSGo Plugin Client: getDefinitionAtPosition", {
           fileName,
           position,
         });
 
-        const context = {
-          document: {
-            uri: `file://${fileName}`,
-            languageId: "typescript",
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generatedPosition = virtualDocuments.toGeneratedPosition(
+          document,
+          position,
+          isDefinitionEnabled
+        );
+        if (!generatedPosition) {
+          return undefined;
+        }
+
+        const result = await tsgoBackend.provideDefinition(
+          document.uri,
+          generatedPosition,
+          token
+        );
+
+        if (!result) {
+          return undefined;
+        }
+
+        // 将 LSP Location / LocationLink 转换为 TypeScript DefinitionInfo 格式
+        const locations: any[] = Array.isArray(result) ? result : [result];
+        const definitions = [];
+        for (const location of locations) {
+          const uri: string = location.targetUri ?? location.uri;
+          const range = location.targetSelectionRange ?? location.range;
+          // 组件的默认导出等生成代码没有映射，退回到组件文件开头
+          const target =
+            virtualDocuments.toSourceLocation(
+              uri,
+              range,
+              isDefinitionEnabled
+            ) ?? virtualDocuments.toSourceFileStart(uri);
+          if (!target) {
+            continue;
+          }
+
+          const start = target.document.offsetAt(target.range.start);
+          const end = target.document.offsetAt(target.range.end);
+          definitions.push({
+            fileName: target.fileName,
+            textSpan: { start, length: end - start },
+            contextSpan: location.targetRange
+              ? toContextSpan(
+                  virtualDocuments.toSourceLocation(uri, location.targetRange)
+                )
+              : undefined,
+          });
+        }
+
+        return definitions;
+      } catch (error) {
+        logger.error("TSGo Plugin Client getDefinitionAtPosition 失败", error);
+        return undefined;
+      }
+    },
+
+    async getCompletionsAtPosition(
+      fileName: string,
+      position: { line: number; character: number },
+      context?: { triggerKind: number; triggerCharacter?: string },
+      token?: CancellationToken
+    ) {
+      try {
+        logger.debug("TSGo Plugin Client: getCompletionsAtPosition", {
+          fileName,
+          position,
+        });
+
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generatedPosition = virtualDocuments.toGeneratedPosition(
+          document,
+          position,
+          isCompletionEnabled
+        );
+        if (!generatedPosition) {
+          return undefined;
+        }
+
+        const result = await tsgoBackend.provideCompletion(
+          document.uri,
+          generatedPosition,
+          context,
+          token
+        );
+        if (!result) {
+          return undefined;
+        }
+
+        const list = Array.isArray(result)
+          ? { isIncomplete: false, items: result }
+          : result;
+        const items = [];
+        for (const item of list.items ?? []) {
+          // 生成代码中的辅助变量（__VLS_ctx、__VLS_components 等）不应出现在补全中
+          if (isGeneratedCodeName(item.label)) {
+            continue;
+          }
+          const mapped = mapCompletionItem(virtualDocuments, document, item);
+          if (mapped) {
+            items.push(mapped);
+          }
+        }
+
+        return {
+          isIncomplete: !!list.isIncomplete,
+          items,
+        };
+      } catch (error) {
+        logger.error("TSGo Plugin Client getCompletionsAtPosition 失败", error);
+        return undefined;
+      }
+    },
+
+    async resolveCompletionItem(item: any, token?: CancellationToken) {
+      const data = item.data as TsgoCompletionData | undefined;
+      if (!data?.vueTsgo) {
+        return item;
+      }
+
+      try {
+        const document = virtualDocuments.getByVirtualUri(data.vueTsgo.uri);
+        const resolved = await tsgoBackend.resolveCompletionItem(
+          data.vueTsgo.uri,
+          {
+            ...item,
+            textEdit: undefined,
+            additionalTextEdits: undefined,
+            data: data.vueTsgo.original,
           },
+          token
+        );
+        if (!resolved || !document) {
+          return item;
+        }
+
+        return {
+          ...item,
+          detail: resolved.detail ?? item.detail,
+          documentation: resolved.documentation ?? item.documentation,
+          additionalTextEdits: mapTextEdits(
+            virtualDocuments,
+            document,
+            resolved.additionalTextEdits
+          ),
         };
+      } catch (error) {
+        logger.error("TSGo Plugin Client resolveCompletionItem 失败", error);
+        return item;
+      }
+    },
 
-        const result = await tsgoBackend.provideDefinition(context, position);
+    async getDiagnostics(fileName: string, token?: CancellationToken) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
 
-        if (result && Array.isArray(result)) {
-          // 将 LSP Location 转换为 TypeScript DefinitionInfo 格式
-          return result.map((loc: any) => ({
-            fileName: loc.uri.replace("file://", ""),
-            textSpan: {
-              start: 0, // 需要将 line/character 转换回 position，这里简化处理
-              length: 1,
-            },
-          }));
+        const diagnostics = await tsgoBackend.provideDiagnostics(
+          document.uri,
+          token
+        );
+        return mapDiagnostics(virtualDocuments, document, diagnostics);
+      } catch (error) {
+        logger.error("TSGo Plugin Client getDiagnostics 失败", error);
+        return undefined;
+      }
+    },
+
+    async getSignatureHelpItems(
+      fileName: string,
+      position: { line: number; character: number },
+      context?: any,
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        // 模板表达式中的 "(" 和 "," 只有校验用的映射，
+        // 找不到可补全的映射时退回任意映射（签名帮助只需落在同一调用表达式内）
+        const generatedPosition =
+          virtualDocuments.toGeneratedPosition(
+            document,
+            position,
+            isSignatureHelpEnabled
+          ) ?? virtualDocuments.toGeneratedPosition(document, position);
+        if (!generatedPosition) {
+          return undefined;
         }
 
+        // 签名帮助不含位置信息，激活的签名与参数可直接沿用
+        const result = await tsgoBackend.provideSignatureHelp(
+          document.uri,
+          generatedPosition,
+          context,
+          token
+        );
+        if (!result?.signatures?.length) {
+          return undefined;
+        }
+        return result;
+      } catch (error) {
+        logger.error("TSGo Plugin Client getSignatureHelpItems 失败", error);
         return undefined;
+      }
+    },
+
+    async getReferencesAtPosition(
+      fileName: string,
+      position: { line: number; character: number },
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generatedPosition = virtualDocuments.toGeneratedPosition(
+          document,
+          position,
+          isReferencesEnabled
+        );
+        if (!generatedPosition) {
+          return undefined;
+        }
+
+        const locations = await tsgoBackend.provideReferences(
+          document.uri,
+          generatedPosition,
+          true,
+          token
+        );
+        if (!locations) {
+          return undefined;
+        }
+
+        // 模板中的同一处引用可能对应多段生成代码，需要去重
+        const references = new Map<
+          string,
+          { fileName: string; textSpan: { start: number; length: number } }
+        >();
+        for (const location of locations) {
+          const target = virtualDocuments.toSourceLocation(
+            location.uri,
+            location.range,
+            isReferencesEnabled
+          );
+          const textSpan = toContextSpan(target);
+          if (!target || !textSpan) {
+            continue;
+          }
+          references.set(
+            `${target.fileName}:${textSpan.start}:${textSpan.length}`,
+            { fileName: target.fileName, textSpan }
+          );
+        }
+
+        return [...references.values()];
       } catch (error) {
-        Logger.error("TSGo Plugin Client getDefinitionAtPosition 失败", error);
+        logger.error("TSGo Plugin Client getReferencesAtPosition 失败", error);
         return undefined;
       }
     },
 
-    // 其他方法可以根据需要添加
-    async getCompletionsAtPosition() {
-      // 暂不实现，返回空
-      return undefined;
+    async getRenameInfo(
+      fileName: string,
+      position: { line: number; character: number },
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generated = virtualDocuments.toGeneratedLocation(
+          document,
+          position,
+          isRenameEnabled
+        );
+        if (!generated) {
+          return undefined;
+        }
+
+        let range: any;
+        let placeholder: string | undefined;
+        if (tsgoBackend.hasCapability(document.uri, "renameProvider")) {
+          const result = await tsgoBackend.prepareRename(
+            document.uri,
+            generated.position,
+            token
+          );
+          range = result?.range ?? (result?.start ? result : undefined);
+          placeholder = result?.placeholder;
+        } else {
+          // TSGo 尚未实现重命名时，以包含当前位置的引用作为可重命名范围
+          const locations = await tsgoBackend.provideReferences(
+            document.uri,
+            generated.position,
+            true,
+            token
+          );
+          range = locations?.find(
+            (location: any) =>
+              location.uri === document.uri &&
+              containsPosition(location.range, generated.position)
+          )?.range;
+        }
+
+        const triggerSpan =
+          range &&
+          toContextSpan(
+            virtualDocuments.toSourceLocation(
+              document.uri,
+              range,
+              isRenameEnabled
+            )
+          );
+        if (!triggerSpan) {
+          return {
+            canRename: false as const,
+            localizedErrorMessage: "无法重命名此元素",
+          };
+        }
+
+        return {
+          canRename: true as const,
+          triggerSpan,
+          placeholder:
+            placeholder ??
+            document.source.getText({
+              start: document.source.positionAt(triggerSpan.start),
+              end: document.source.positionAt(
+                triggerSpan.start + triggerSpan.length
+              ),
+            }),
+        };
+      } catch (error) {
+        logger.error("TSGo Plugin Client getRenameInfo 失败", error);
+        return undefined;
+      }
     },
 
-    async getSignatureHelpItems() {
-      // 暂不实现，返回空
-      return undefined;
+    /**
+     * 计算重命名编辑，结果已映射回 .vue 源文件（含导入它的 .ts 文件）
+     */
+    async getRenameEdits(
+      fileName: string,
+      position: { line: number; character: number },
+      newName: string,
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generated = virtualDocuments.toGeneratedLocation(
+          document,
+          position,
+          isRenameEnabled
+        );
+        if (!generated) {
+          return undefined;
+        }
+
+        // 模板中的组件名等位置会对新名称做转换（如连字符形式）
+        const resolvedName = resolveRenameNewName(newName, generated.data);
+
+        let changes: { uri: string; edits: any[] }[];
+        if (tsgoBackend.hasCapability(document.uri, "renameProvider")) {
+          const workspaceEdit = await tsgoBackend.provideRename(
+            document.uri,
+            generated.position,
+            resolvedName,
+            token
+          );
+          changes = toDocumentChanges(workspaceEdit);
+        } else {
+          // TSGo 尚未实现重命名时，基于引用生成编辑
+          const locations = await tsgoBackend.provideReferences(
+            document.uri,
+            generated.position,
+            true,
+            token
+          );
+          changes = groupLocationsByUri(locations ?? [], resolvedName);
+        }
+
+        const edits = new Map<
+          string,
+          {
+            fileName: string;
+            textSpan: { start: number; length: number };
+            newText: string;
+          }
+        >();
+        for (const { uri, edits: textEdits } of changes) {
+          const virtualDocument = virtualDocuments.getByVirtualUri(uri);
+          for (const edit of textEdits) {
+            let target;
+            let newText: string = edit.newText;
+            if (virtualDocument) {
+              const mapped = virtualDocuments.toSourceMappedRange(
+                virtualDocument,
+                edit.range,
+                isRenameEnabled
+              );
+              if (!mapped) {
+                continue;
+              }
+              target = {
+                fileName: virtualDocument.sourceUri.fsPath,
+                document: virtualDocument.source,
+                range: mapped.range,
+              };
+              newText = resolveRenameEditText(newText, mapped.data);
+            } else {
+              target = virtualDocuments.toSourceLocation(uri, edit.range);
+            }
+
+            const textSpan = toContextSpan(target);
+            if (!target || !textSpan) {
+              continue;
+            }
+            edits.set(
+              `${target.fileName}:${textSpan.start}:${textSpan.length}`,
+              { fileName: target.fileName, textSpan, newText }
+            );
+          }
+        }
+
+        return [...edits.values()];
+      } catch (error) {
+        logger.error("TSGo Plugin Client getRenameEdits 失败", error);
+        return undefined;
+      }
     },
 
-    async getReferencesAtPosition() {
-      // 暂不实现，返回空
-      return undefined;
+    /**
+     * 文档高亮（由 Vue 的 vue-document-highlights 插件调用）
+     * position 为 .vue 源文件中的偏移量，返回按文件分组的高亮范围
+     */
+    async getDocumentHighlights(
+      fileName: string,
+      position: number,
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generatedPosition = virtualDocuments.toGeneratedPosition(
+          document,
+          document.source.positionAt(position),
+          isHighlightEnabled
+        );
+        if (!generatedPosition) {
+          return undefined;
+        }
+
+        // TSGo 尚未实现文档高亮时，使用当前文件内的引用代替
+        const highlights = tsgoBackend.hasCapability(
+          document.uri,
+          "documentHighlightProvider"
+        )
+          ? await tsgoBackend.provideDocumentHighlights(
+              document.uri,
+              generatedPosition,
+              token
+            )
+          : (
+              await tsgoBackend.provideReferences(
+                document.uri,
+                generatedPosition,
+                true,
+                token
+              )
+            )?.filter((location: any) => location.uri === document.uri);
+        if (!highlights) {
+          return undefined;
+        }
+
+        const highlightSpans = new Map<string, HighlightSpan>();
+        for (const highlight of highlights) {
+          const range = virtualDocuments.toSourceRange(
+            document,
+            highlight.range,
+            isHighlightEnabled
+          );
+          if (!range) {
+            continue;
+          }
+          const start = document.source.offsetAt(range.start);
+          const end = document.source.offsetAt(range.end);
+          highlightSpans.set(`${start}:${end}`, {
+            fileName,
+            textSpan: { start, length: end - start },
+            kind: toHighlightSpanKind(highlight.kind),
+          });
+        }
+
+        return [{ fileName, highlightSpans: [...highlightSpans.values()] }];
+      } catch (error) {
+        logger.error("TSGo Plugin Client getDocumentHighlights 失败", error);
+        return undefined;
+      }
     },
 
-    async getRenameInfo() {
-      // 暂不实现，返回空
-      return undefined;
+    /**
+     * 代码操作，range 与诊断均为 .vue 源文件中的位置
+     * 返回的 WorkspaceEdit 已映射回源文件，普通 TS 文件的编辑原样保留
+     */
+    async getCodeActions(
+      fileName: string,
+      range: Range,
+      context: { diagnostics?: any[]; only?: string[]; triggerKind?: number },
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generatedRange = virtualDocuments.toGeneratedRange(
+          document,
+          range,
+          isCodeActionsEnabled
+        );
+        if (!generatedRange) {
+          return undefined;
+        }
+
+        // 快速修复依赖诊断的位置和错误码，需要一并映射到虚拟代码
+        const diagnostics = [];
+        for (const diagnostic of context.diagnostics ?? []) {
+          const diagnosticRange = virtualDocuments.toGeneratedRange(
+            document,
+            diagnostic.range,
+            isCodeActionsEnabled
+          );
+          if (diagnosticRange) {
+            diagnostics.push({ ...diagnostic, range: diagnosticRange });
+          }
+        }
+
+        const actions = await tsgoBackend.provideCodeActions(
+          document.uri,
+          generatedRange,
+          {
+            diagnostics,
+            only: context.only,
+            triggerKind: context.triggerKind,
+          },
+          token
+        );
+        if (!actions) {
+          return undefined;
+        }
+
+        const result = [];
+        for (const action of actions) {
+          const mapped = mapCodeAction(virtualDocuments, document, action);
+          if (mapped) {
+            result.push(mapped);
+          }
+        }
+        return result;
+      } catch (error) {
+        logger.error("TSGo Plugin Client getCodeActions 失败", error);
+        return undefined;
+      }
     },
 
-    async getDocumentHighlights() {
-      // 暂不实现，返回空
-      return undefined;
+    async resolveCodeAction(action: any, token?: CancellationToken) {
+      const data = action.data as TsgoCodeActionData | undefined;
+      if (!data?.vueTsgo) {
+        return action;
+      }
+
+      try {
+        const resolved = await tsgoBackend.resolveCodeAction(
+          data.vueTsgo.uri,
+          { ...action, data: data.vueTsgo.original },
+          token
+        );
+        if (!resolved?.edit) {
+          return action;
+        }
+
+        const edit = mapWorkspaceEdit(virtualDocuments, resolved.edit);
+        return edit ? { ...action, edit } : action;
+      } catch (error) {
+        logger.error("TSGo Plugin Client resolveCodeAction 失败", error);
+        return action;
+      }
     },
 
-    async getComponentNames() {
-      // 暂不实现，返回空
-      return undefined;
+    /**
+     * 内联提示，range 为 .vue 源文件中的可见范围
+     * 位于纯生成代码中的提示无法映射回源文件，直接丢弃
+     */
+    async getInlayHints(
+      fileName: string,
+      range: Range,
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+        const generatedRange = virtualDocuments.toGeneratedCoveringRange(
+          document,
+          range,
+          isInlayHintsEnabled
+        );
+        if (!generatedRange) {
+          return undefined;
+        }
+
+        const hints = await tsgoBackend.provideInlayHints(
+          document.uri,
+          generatedRange,
+          token
+        );
+        if (!hints) {
+          return undefined;
+        }
+
+        const start = document.source.offsetAt(range.start);
+        const end = document.source.offsetAt(range.end);
+        const result = [];
+        for (const hint of hints) {
+          const mapped = virtualDocuments.toSourceRange(
+            document,
+            { start: hint.position, end: hint.position },
+            isInlayHintsEnabled
+          );
+          if (!mapped) {
+            continue;
+          }
+          const offset = document.source.offsetAt(mapped.start);
+          if (offset < start || offset > end) {
+            continue;
+          }
+
+          result.push({
+            ...hint,
+            position: mapped.start,
+            label: Array.isArray(hint.label)
+              ? hint.label.map((part: any) => ({
+                  ...part,
+                  location: part.location
+                    ? mapLocation(virtualDocuments, part.location)
+                    : undefined,
+                }))
+              : hint.label,
+            textEdits: mapTextEdits(virtualDocuments, document, hint.textEdits),
+          });
+        }
+        return result;
+      } catch (error) {
+        logger.error("TSGo Plugin Client getInlayHints 失败", error);
+        return undefined;
+      }
     },
 
-    async getElementNames() {
-      // 暂不实现，返回空
-      return undefined;
+    async getComponentNames(fileName: string) {
+      return componentInfo.getComponentNames(fileName);
     },
 
-    async getComponentProps() {
-      // 暂不实现，返回空
-      return undefined;
+    async getElementNames(fileName: string) {
+      return componentInfo.getElementNames(fileName);
     },
 
-    async getComponentEvents() {
-      // 暂不实现，返回空
-      return undefined;
+    async getComponentProps(fileName: string, position: number) {
+      return componentInfo.getComponentProps(fileName, position);
     },
 
-    async getComponentDirectives() {
-      // 暂不实现，返回空
-      return undefined;
+    async getComponentEvents(fileName: string, tag: string) {
+      return componentInfo.getComponentEvents(fileName, tag);
     },
 
-    async getComponentSlots() {
-      // 暂不实现，返回空
+    async getComponentDirectives(fileName: string) {
+      return componentInfo.getComponentDirectives(fileName);
+    },
+
+    async getComponentSlots(fileName: string) {
+      return componentInfo.getComponentSlots(fileName);
+    },
+
+    async getComponentMeta(fileName: string, tag: string) {
+      return componentInfo.getComponentMeta(fileName, tag);
+    },
+
+    async getElementAttrs(fileName: string, tag: string) {
+      return componentInfo.getElementAttrs(fileName, tag);
+    },
+
+    async getAutoImportSuggestions() {
+      // 暂不实现，返回空（模板补全会在有组件候选时调用）
       return undefined;
     },
 
-    async getElementAttrs() {
+    async resolveAutoImportCompletionEntry() {
       // 暂不实现，返回空
       return undefined;
     },
 
-    async getEncodedSemanticClassifications() {
+    async resolveModuleName() {
       // 暂不实现，返回空
       return undefined;
     },
+
+    /**
+     * 语义分类，span 为 .vue 源文件中的偏移
+     * 将 TSGo 的 LSP 语义标记映射回源文件，并编码为 TypeScript 2020 分类格式
+     */
+    async getEncodedSemanticClassifications(
+      fileName: string,
+      span: { start: number; length: number },
+      token?: CancellationToken
+    ) {
+      try {
+        const document = await virtualDocuments.get(fileName);
+        if (!document) {
+          return undefined;
+        }
+
+        const spanEnd = span.start + span.length;
+        const wholeDocument =
+          span.start === 0 && spanEnd >= document.source.getText().length;
+        const generatedRange = wholeDocument
+          ? undefined
+          : virtualDocuments.toGeneratedCoveringRange(
+              document,
+              {
+                start: document.source.positionAt(span.start),
+                end: document.source.positionAt(spanEnd),
+              },
+              isSemanticTokensEnabled
+            );
+        if (!wholeDocument && !generatedRange) {
+          return undefined;
+        }
+
+        const tokens = await tsgoBackend.provideSemanticTokens(
+          document.uri,
+          generatedRange,
+          token
+        );
+        if (!tokens) {
+          return undefined;
+        }
+
+        const classifications = new Map<number, [number, number, number]>();
+        for (const semanticToken of decodeSemanticTokens(tokens.data)) {
+          const classification = toTsClassification(
+            tokens.legend,
+            semanticToken.tokenType,
+            semanticToken.tokenModifiers
+          );
+          if (classification === undefined) {
+            continue;
+          }
+
+          const range = virtualDocuments.toSourceRange(
+            document,
+            {
+              start: {
+                line: semanticToken.line,
+                character: semanticToken.character,
+              },
+              end: {
+                line: semanticToken.line,
+                character: semanticToken.character + semanticToken.length,
+              },
+            },
+            isSemanticTokensEnabled
+          );
+          if (!range) {
+            continue;
+          }
+          const start = document.source.offsetAt(range.start);
+          const end = document.source.offsetAt(range.end);
+          if (end <= start || end <= span.start || start >= spanEnd) {
+            continue;
+          }
+          classifications.set(start, [start, end - start, classification]);
+        }
+
+        // 模板中的标识符可能对应多段生成代码，按源文件位置去重并排序
+        return {
+          spans: [...classifications.values()]
+            .sort((a, b) => a[0] - b[0])
+            .flat(),
+          endOfLineState: 0,
+        };
+      } catch (error) {
+        logger.error(
+          "TSGo Plugin Client getEncodedSemanticClassifications 失败",
+          error
+        );
+        return undefined;
+      }
+    },
+  });
+}
+
+/**
+ * TypeScript 2020 语义分类中的标记类型与修饰符顺序
+ */
+const TS_TOKEN_TYPES = [
+  "class",
+  "enum",
+  "interface",
+  "namespace",
+  "typeParameter",
+  "type",
+  "parameter",
+  "variable",
+  "enumMember",
+  "property",
+  "function",
+  "method",
+];
+const TS_TOKEN_MODIFIERS = [
+  "declaration",
+  "static",
+  "async",
+  "readonly",
+  "defaultLibrary",
+  "local",
+];
+
+/**
+ * 记录插件客户端收到的请求及映射后的结果（启用 vueTsgo.protocolTrace 时），
+ * 回放工具按记录重新调用插件客户端，对比结果与发给 TSGo 的消息
+ */
+function traceRequests<
+  T extends Record<string, (...args: any[]) => Promise<any>>
+>(tsgoBackend: TsgoBackendPool, client: T): T {
+  let nextId = 0;
+  const traced: Record<string, (...args: any[]) => Promise<any>> = {};
+  for (const [method, handler] of Object.entries(client)) {
+    traced[method] = async (...args: any[]) => {
+      const uri = getTraceUri(args);
+      if (!uri) {
+        return handler(...args);
+      }
+
+      const id = nextId++;
+      tsgoBackend.recordTrace(uri, {
+        type: "request",
+        time: new Date().toISOString(),
+        id,
+        method,
+        args: args.filter((arg) => !isCancellationToken(arg)),
+      });
+      const result = await handler(...args);
+      tsgoBackend.recordTrace(uri, {
+        type: "response",
+        time: new Date().toISOString(),
+        id,
+        result: result ?? null,
+      });
+      return result;
+    };
+  }
+  return traced as T;
+}
+
+/**
+ * 请求所属的文件：第一个参数为文件名，resolve 类请求取附带数据中的虚拟文件 URI
+ */
+function getTraceUri(args: any[]): string | undefined {
+  const [first] = args;
+  if (typeof first === "string") {
+    return URI.file(first).toString();
+  }
+  return first?.data?.vueTsgo?.uri;
+}
+
+function isCancellationToken(value: any): boolean {
+  return typeof value?.isCancellationRequested === "boolean";
+}
+
+/**
+ * 解码 LSP 相对编码的语义标记
+ */
+function decodeSemanticTokens(data: number[]) {
+  const tokens = [];
+  let line = 0;
+  let character = 0;
+  for (let i = 0; i + 4 < data.length; i += 5) {
+    line += data[i];
+    character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+    tokens.push({
+      line,
+      character,
+      length: data[i + 2],
+      tokenType: data[i + 3],
+      tokenModifiers: data[i + 4],
+    });
+  }
+  return tokens;
+}
+
+/**
+ * 按图例将 LSP 标记类型和修饰符转换为 TypeScript 分类编码：
+ * (类型序号 + 1) << 8 | 修饰符位
+ */
+function toTsClassification(
+  legend: { tokenTypes: string[]; tokenModifiers: string[] },
+  tokenType: number,
+  tokenModifiers: number
+): number | undefined {
+  const type = TS_TOKEN_TYPES.indexOf(legend.tokenTypes[tokenType]);
+  if (type === -1) {
+    return undefined;
+  }
+
+  let modifiers = 0;
+  legend.tokenModifiers.forEach((name, i) => {
+    const modifier = TS_TOKEN_MODIFIERS.indexOf(name);
+    if (modifier !== -1 && tokenModifiers & (1 << i)) {
+      modifiers |= 1 << modifier;
+    }
+  });
+  return ((type + 1) << 8) | modifiers;
+}
+
+/**
+ * LSP DocumentHighlightKind（1 文本、2 读、3 写）转换为 TypeScript HighlightSpanKind
+ */
+function toHighlightSpanKind(kind: number | undefined): HighlightSpan["kind"] {
+  return kind === 2 ? "reference" : kind === 3 ? "writtenReference" : "none";
+}
+
+/**
+ * 将映射后的范围转换为 TextSpan
+ */
+function toContextSpan(
+  location: ReturnType<VirtualDocumentManager["toSourceLocation"]>
+) {
+  if (!location) {
+    return undefined;
+  }
+  const start = location.document.offsetAt(location.range.start);
+  const end = location.document.offsetAt(location.range.end);
+  return { start, length: end - start };
+}
+
+/**
+ * 将 WorkspaceEdit 统一为按文档分组的编辑列表（兼容 changes 与 documentChanges）
+ */
+function toDocumentChanges(
+  workspaceEdit: any
+): { uri: string; edits: any[] }[] {
+  if (!workspaceEdit) {
+    return [];
+  }
+  if (workspaceEdit.documentChanges) {
+    return workspaceEdit.documentChanges
+      .filter((change: any) => change.textDocument && change.edits)
+      .map((change: any) => ({
+        uri: change.textDocument.uri,
+        edits: change.edits,
+      }));
+  }
+  return Object.entries(workspaceEdit.changes ?? {}).map(([uri, edits]) => ({
+    uri,
+    edits: edits as any[],
+  }));
+}
+
+/**
+ * 将 TSGo 返回的代码操作映射回 .vue 文件
+ * 只需在 TSGo 中执行的命令无法转发，直接丢弃
+ */
+function mapCodeAction(
+  virtualDocuments: VirtualDocumentManager,
+  document: VirtualDocument,
+  action: any
+) {
+  if (typeof action.command === "string") {
+    return undefined;
+  }
+
+  let edit;
+  if (action.edit) {
+    edit = mapWorkspaceEdit(virtualDocuments, action.edit);
+    if (!edit) {
+      return undefined;
+    }
+  } else if (action.data === undefined) {
+    return undefined;
+  }
+
+  const diagnostics = [];
+  for (const diagnostic of action.diagnostics ?? []) {
+    const range = virtualDocuments.toSourceRange(document, diagnostic.range);
+    if (range) {
+      diagnostics.push({ ...diagnostic, range });
+    }
+  }
+
+  const data: TsgoCodeActionData | undefined =
+    action.data === undefined
+      ? undefined
+      : { vueTsgo: { uri: document.uri, original: action.data } };
+
+  return {
+    title: action.title,
+    kind: action.kind,
+    isPreferred: action.isPreferred,
+    disabled: action.disabled,
+    diagnostics: diagnostics.length ? diagnostics : undefined,
+    edit,
+    data,
+  };
+}
+
+/**
+ * 将 WorkspaceEdit 中虚拟文件的编辑映射回 .vue 文件
+ * 任一编辑无法映射时返回 undefined，避免只应用部分修改
+ */
+function mapWorkspaceEdit(
+  virtualDocuments: VirtualDocumentManager,
+  workspaceEdit: any
+): { changes: Record<string, any[]> } | undefined {
+  const changes: Record<string, any[]> = {};
+  for (const { uri, edits } of toDocumentChanges(workspaceEdit)) {
+    const virtualDocument = virtualDocuments.getByVirtualUri(uri);
+    if (!virtualDocument) {
+      const sourceUri = virtualDocuments.toSourceUri(URI.parse(uri).fsPath);
+      if (
+        isVirtualFileName(sourceUri.fsPath) ||
+        isQueryFileName(sourceUri.fsPath)
+      ) {
+        return undefined;
+      }
+      (changes[sourceUri.toString()] ??= []).push(...edits);
+      continue;
+    }
+
+    const sourceUri = virtualDocument.sourceUri.toString();
+    for (const edit of edits) {
+      const range = virtualDocuments.toSourceRange(
+        virtualDocument,
+        edit.range,
+        isCodeActionsEnabled
+      );
+      if (!range) {
+        return undefined;
+      }
+      (changes[sourceUri] ??= []).push({ range, newText: edit.newText });
+    }
+  }
+  return Object.keys(changes).length ? { changes } : undefined;
+}
+
+/**
+ * 将引用位置转换为替换为新名称的编辑
+ */
+function groupLocationsByUri(
+  locations: any[],
+  newText: string
+): { uri: string; edits: any[] }[] {
+  const changes = new Map<string, any[]>();
+  for (const location of locations) {
+    if (!changes.has(location.uri)) {
+      changes.set(location.uri, []);
+    }
+    changes.get(location.uri)!.push({ range: location.range, newText });
+  }
+  return [...changes].map(([uri, edits]) => ({ uri, edits }));
+}
+
+function containsPosition(
+  range: { start: Position; end: Position },
+  position: Position
+): boolean {
+  const afterStart =
+    position.line > range.start.line ||
+    (position.line === range.start.line &&
+      position.character >= range.start.character);
+  const beforeEnd =
+    position.line < range.end.line ||
+    (position.line === range.end.line &&
+      position.character <= range.end.character);
+  return afterStart && beforeEnd;
+}
+
+/**
+ * 将 TSGo 返回的补全项从虚拟代码坐标映射回 .vue 文件
+ */
+function mapCompletionItem(
+  virtualDocuments: VirtualDocumentManager,
+  document: VirtualDocument,
+  item: any
+) {
+  const mapped = {
+    ...item,
+    data: {
+      vueTsgo: { uri: document.uri, original: item.data },
+    } satisfies TsgoCompletionData,
   };
+
+  if (item.textEdit) {
+    if ("range" in item.textEdit) {
+      const range = virtualDocuments.toSourceRange(
+        document,
+        item.textEdit.range,
+        isCompletionEnabled
+      );
+      if (!range) {
+        return undefined;
+      }
+      mapped.textEdit = { ...item.textEdit, range };
+    } else {
+      const insert = virtualDocuments.toSourceRange(
+        document,
+        item.textEdit.insert,
+        isCompletionEnabled
+      );
+      const replace = virtualDocuments.toSourceRange(
+        document,
+        item.textEdit.replace,
+        isCompletionEnabled
+      );
+      if (!insert || !replace) {
+        return undefined;
+      }
+      mapped.textEdit = { ...item.textEdit, insert, replace };
+    }
+  }
+
+  if (item.additionalTextEdits) {
+    mapped.additionalTextEdits = mapTextEdits(
+      virtualDocuments,
+      document,
+      item.additionalTextEdits
+    );
+  }
+
+  return mapped;
+}
+
+/**
+ * 将 TSGo 返回的虚拟文档诊断映射回 .vue 文件
+ * 丢弃生成代码引入的噪声，以及无法映射回源码或不允许上报的诊断
+ */
+export function mapDiagnostics(
+  virtualDocuments: VirtualDocumentManager,
+  document: VirtualDocument,
+  diagnostics: any[]
+) {
+  const result = [];
+  for (const diagnostic of diagnostics) {
+    if (
+      isGeneratedCodeNoise(diagnostic) ||
+      isUnmirroredVueImport(diagnostic, document.sourceUri.fsPath)
+    ) {
+      continue;
+    }
+
+    // 只保留能映射回 <script setup> / 模板且允许上报的诊断
+    const range = virtualDocuments.toSourceRange(
+      document,
+      diagnostic.range,
+      (data) =>
+        shouldReportDiagnostics(data, diagnostic.source, diagnostic.code)
+    );
+    if (!range) {
+      continue;
+    }
+
+    result.push({
+      ...diagnostic,
+      range,
+      relatedInformation: diagnostic.relatedInformation
+        ?.map((info: any) => {
+          const location = virtualDocuments.toSourceLocation(
+            info.location.uri,
+            info.location.range
+          );
+          return location
+            ? {
+                ...info,
+                location: {
+                  uri: URI.file(location.fileName).toString(),
+                  range: location.range,
+                },
+              }
+            : undefined;
+        })
+        .filter(Boolean),
+    });
+  }
+  return result;
+}
+
+/**
+ * 映射文本编辑，丢弃落在纯生成代码中的编辑
+ */
+function mapTextEdits(
+  virtualDocuments: VirtualDocumentManager,
+  document: VirtualDocument,
+  edits: any[] | undefined
+) {
+  if (!edits) {
+    return undefined;
+  }
+  const result = [];
+  for (const edit of edits) {
+    const range = virtualDocuments.toSourceRange(document, edit.range);
+    if (range) {
+      result.push({ ...edit, range });
+    }
+  }
+  return result;
+}
+
+/**
+ * 将 TSGo 返回的 Location 映射回源文件
+ * 虚拟文件中无法映射的位置退回到 .vue 文件开头，其余无法映射时返回 undefined
+ */
+function mapLocation(
+  virtualDocuments: VirtualDocumentManager,
+  location: { uri: string; range: Range }
+) {
+  const target =
+    virtualDocuments.toSourceLocation(location.uri, location.range) ??
+    virtualDocuments.toSourceFileStart(location.uri);
+  if (!target) {
+    return undefined;
+  }
+  return { uri: URI.file(target.fileName).toString(), range: target.range };
+}
+
+/**
+ * 过滤生成代码引入的噪声诊断（如 __VLS_ 辅助变量相关的报错）
+ */
+function isGeneratedCodeNoise(diagnostic: any): boolean {
+  const message =
+    typeof diagnostic.message === "string" ? diagnostic.message : "";
+  return message.includes("__VLS_");
+}
+
+/**
+ * 未启用 writeVirtualFiles 时虚拟文档只在 TSGo 内存中，TSGo 无法将 ./X.vue 解析到它们，
+ * 对 .vue 文件的导入会报告找不到模块（TS2307）
+ * 相对路径的导入在文件存在时忽略；别名（如 @/）无法在这里解析，一律忽略
+ */
+function isUnmirroredVueImport(diagnostic: any, fileName: string): boolean {
+  if (
+    ServerConfigManager.isVirtualFileCacheEnabled() ||
+    String(diagnostic.code) !== "2307"
+  ) {
+    return false;
+  }
+  const specifier = /['"]([^'"]+\.vue)['"]/.exec(diagnostic.message)?.[1];
+  if (!specifier) {
+    return false;
+  }
+  return (
+    !specifier.startsWith(".") ||
+    fs.existsSync(path.resolve(path.dirname(fileName), specifier))
+  );
+}
+
+/**
+ * 生成代码中的辅助名称（__VLS_ 前缀）
+ */
+function isGeneratedCodeName(name: unknown): boolean {
+  return typeof name === "string" && name.startsWith("__VLS_");
 }
@@ -0,0 +1,294 @@
+import type {
+  LanguageServiceContext,
+  LanguageServicePlugin,
+} from "@vue/language-service";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import type { TsgoPluginClient } from "./tsgo-plugin-client";
+import type { VirtualDocumentManager } from "./virtual-documents";
+
+/**
+ * TSGo 语言服务插件
+ * 在 .vue 根代码（id 为 main，与源文件一一映射）上提供 TypeScript 功能，
+ * 由插件客户端负责与虚拟 TS 文档之间的位置映射
+ */
+export function createTsgoServicePlugin(
+  client: TsgoPluginClient,
+  virtualDocuments: VirtualDocumentManager
+): LanguageServicePlugin {
+  return {
+    name: "vue-tsgo",
+    capabilities: {
+      hoverProvider: true,
+      definitionProvider: true,
+      referencesProvider: true,
+      renameProvider: { prepareProvider: true },
+      signatureHelpProvider: {
+        triggerCharacters: ["(", ",", "<"],
+        retriggerCharacters: [")"],
+      },
+      completionProvider: {
+        resolveProvider: true,
+        triggerCharacters: [".", '"', "'", "`", "/", "@", "<", "#", " "],
+      },
+      inlayHintProvider: {},
+      codeActionProvider: {
+        codeActionKinds: ["quickfix", "refactor", "source.organizeImports"],
+        resolveProvider: true,
+      },
+      diagnosticProvider: {
+        interFileDependencies: true,
+        workspaceDiagnostics: false,
+      },
+    },
+    create(context) {
+      return {
+        async provideHover(document, position, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          const content = await client.getQuickInfoAtPosition(
+            fileName,
+            position,
+            token
+          );
+          if (!content) {
+            return;
+          }
+
+          return {
+            contents: { kind: "markdown", value: content },
+          };
+        },
+
+        async provideDefinition(document, position, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          const definitions = await client.getDefinitionAtPosition(
+            fileName,
+            position,
+            token
+          );
+          if (!definitions) {
+            return;
+          }
+
+          const links = [];
+          for (const definition of definitions) {
+            const target = virtualDocuments.getTextDocument(
+              definition.fileName
+            );
+            if (!target) {
+              continue;
+            }
+            const targetSelectionRange = toRange(target, definition.textSpan);
+            links.push({
+              targetUri: URI.file(definition.fileName).toString(),
+              targetRange: definition.contextSpan
+                ? toRange(target, definition.contextSpan)
+                : targetSelectionRange,
+              targetSelectionRange,
+            });
+          }
+          return links;
+        },
+
+        async provideReferences(document, position, referenceContext, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          const references = await client.getReferencesAtPosition(
+            fileName,
+            position,
+            token
+          );
+          if (!references) {
+            return;
+          }
+
+          const locations = [];
+          for (const reference of references) {
+            const target = virtualDocuments.getTextDocument(reference.fileName);
+            if (!target) {
+              continue;
+            }
+            locations.push({
+              uri: URI.file(reference.fileName).toString(),
+              range: toRange(target, reference.textSpan),
+            });
+          }
+          return locations;
+        },
+
+        async provideRenameRange(document, position, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          const info = await client.getRenameInfo(fileName, position, token);
+          if (!info) {
+            return;
+          }
+          if (!info.canRename) {
+            return { message: info.localizedErrorMessage };
+          }
+          return {
+            range: toRange(document, info.triggerSpan),
+            placeholder: info.placeholder,
+          };
+        },
+
+        async provideRenameEdits(document, position, newName, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          const edits = await client.getRenameEdits(
+            fileName,
+            position,
+            newName,
+            token
+          );
+          if (!edits) {
+            return;
+          }
+
+          const changes: Record<string, { range: any; newText: string }[]> =
+            {};
+          for (const edit of edits) {
+            const target = virtualDocuments.getTextDocument(edit.fileName);
+            if (!target) {
+              continue;
+            }
+            const uri = URI.file(edit.fileName).toString();
+            (changes[uri] ??= []).push({
+              range: toRange(target, edit.textSpan),
+              newText: edit.newText,
+            });
+          }
+          return { changes };
+        },
+
+        async provideSignatureHelp(document, position, signatureContext, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          return client.getSignatureHelpItems(
+            fileName,
+            position,
+            signatureContext,
+            token
+          );
+        },
+
+        async provideCompletionItems(
+          document,
+          position,
+          completionContext,
+          token
+        ) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          return client.getCompletionsAtPosition(
+            fileName,
+            position,
+            completionContext,
+            token
+          );
+        },
+
+        async resolveCompletionItem(item, token) {
+          return client.resolveCompletionItem(item, token);
+        },
+
+        async provideInlayHints(document, range, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          return client.getInlayHints(fileName, range, token);
+        },
+
+        async provideCodeActions(document, range, codeActionContext, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          return client.getCodeActions(
+            fileName,
+            range,
+            codeActionContext,
+            token
+          );
+        },
+
+        async resolveCodeAction(codeAction, token) {
+          return client.resolveCodeAction(codeAction, token);
+        },
+
+        async provideDiagnostics(document, token) {
+          const fileName = resolveVueFileName(context, document.uri);
+          if (!fileName) {
+            return;
+          }
+
+          return client.getDiagnostics(fileName, token);
+        },
+      };
+    },
+  };
+}
+
+/**
+ * 将 TextSpan 转换为 LSP Range
+ */
+function toRange(
+  document: TextDocument,
+  span: { start: number; length: number }
+) {
+  return {
+    start: document.positionAt(span.start),
+    end: document.positionAt(span.start + span.length),
+  };
+}
+
+/**
+ * 解析嵌入文档对应的 .vue 文件路径，仅处理 main 代码
+ */
+function resolveVueFileName(
+  context: LanguageServiceContext,
+  uri: string
+): string | undefined {
+  const decoded = context.decodeEmbeddedDocumentUri(URI.parse(uri));
+  if (!decoded) {
+    return undefined;
+  }
+
+  const [sourceUri, embeddedCodeId] = decoded;
+  if (sourceUri.scheme !== "file" || embeddedCodeId !== "main") {
+    return undefined;
+  }
+
+  const sourceScript = context.language.scripts.get(sourceUri);
+  if (!sourceScript?.generated) {
+    return undefined;
+  }
+
+  return sourceUri.fsPath;
+}
@@ -0,0 +1,614 @@
+import type {
+  CodeInformation,
+  Language,
+  Mapper,
+  Mapping,
+  SourceScript,
+  VirtualCode,
+} from "@vue/language-core";
+import * as fs from "fs";
+import {
+  Position,
+  Range,
+  TextDocument,
+} from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { TsgoBackendPool } from "./tsgo-backend-pool";
+import { VirtualFileCache } from "./virtual-file-cache";
+import { Logger } from "../utils/logger";
+
+const logger = Logger.scope("virtual-documents");
+
+/**
+ * 同步到 TSGo 的虚拟文档
+ * 对应一个 .vue 文件由 Volar 生成的 TypeScript 服务脚本（如 App.vue.ts）
+ */
+export interface VirtualDocument {
+  /** 源 .vue 文件 */
+  sourceUri: URI;
+  /** 发送给 TSGo 的虚拟文件 URI */
+  uri: string;
+  languageId: string;
+  sourceScript: SourceScript<URI>;
+  code: VirtualCode;
+  map: Mapper;
+  /** 源 .vue 文件内容 */
+  source: TextDocument;
+  /** 生成的虚拟 TypeScript 内容 */
+  generated: TextDocument;
+}
+
+/**
+ * 虚拟文档管理
+ * 负责 .vue 源文件与 TSGo 中虚拟 TS 文档之间的生命周期同步和位置映射
+ */
+export class VirtualDocumentManager {
+  private documents = new Map<string, VirtualDocument>();
+  private languages = new Map<string, Language<URI>>();
+
+  constructor(
+    private tsgoBackend: TsgoBackendPool,
+    private cache?: VirtualFileCache
+  ) {}
+
+  /**
+   * 根据 Volar Language 重新生成虚拟代码，并同步到 TSGo
+   */
+  async sync(
+    language: Language<URI>,
+    sourceUri: URI
+  ): Promise<VirtualDocument | undefined> {
+    const key = sourceUri.toString();
+    this.languages.set(key, language);
+
+    const document = this.resolve(language, sourceUri);
+    if (!document) {
+      await this.close(sourceUri);
+      return undefined;
+    }
+
+    const previous = this.documents.get(key);
+    if (previous && previous.uri !== document.uri) {
+      await this.tsgoBackend.closeDocument(previous.uri);
+    }
+    this.documents.set(key, document);
+    this.tsgoBackend.recordTrace(key, {
+      type: "source",
+      time: new Date().toISOString(),
+      uri: key,
+      languageId: document.sourceScript.languageId,
+      text: document.source.getText(),
+    });
+    // 先写入磁盘：TSGo 打开文件时会检查缓存 tsconfig 的 include 是否包含该文件
+    await this.writeCache(document);
+
+    try {
+      await this.tsgoBackend.syncDocument(
+        document.uri,
+        document.languageId,
+        document.generated.getText()
+      );
+    } catch (error) {
+      logger.error("同步虚拟文档到 TSGo 失败", error);
+    }
+
+    return document;
+  }
+
+  /**
+   * 将未打开的 .vue 文件的虚拟代码写入缓存目录，不在 TSGo 中打开
+   * 用于启用 writeVirtualFiles 时让 TSGo 从磁盘解析对这些文件的导入
+   */
+  async materialize(language: Language<URI>, sourceUri: URI): Promise<void> {
+    const document = this.resolve(language, sourceUri);
+    if (document) {
+      await this.writeCache(document);
+    }
+  }
+
+  /**
+   * 关闭 .vue 文件对应的虚拟文档
+   */
+  async close(sourceUri: URI): Promise<void> {
+    const key = sourceUri.toString();
+    const document = this.documents.get(key);
+    this.documents.delete(key);
+    this.languages.delete(key);
+
+    if (document) {
+      this.tsgoBackend.recordTrace(key, {
+        type: "source",
+        time: new Date().toISOString(),
+        uri: key,
+        languageId: document.sourceScript.languageId,
+        text: null,
+      });
+      try {
+        await this.tsgoBackend.closeDocument(document.uri);
+        await this.tsgoBackend.closeDocument(toQueryUri(document.uri));
+      } catch (error) {
+        logger.error("关闭 TSGo 虚拟文档失败", error);
+      }
+    }
+  }
+
+  /**
+   * 关闭所有虚拟文档
+   */
+  async closeAll(): Promise<void> {
+    for (const document of this.all()) {
+      await this.close(document.sourceUri);
+    }
+  }
+
+  /**
+   * 根据 .vue 文件路径获取最新的虚拟文档（必要时重新同步）
+   */
+  async get(fileName: string): Promise<VirtualDocument | undefined> {
+    const sourceUri = this.toSourceUri(fileName);
+    const language = this.languages.get(sourceUri.toString());
+    if (!language) {
+      return undefined;
+    }
+    return this.sync(language, sourceUri);
+  }
+
+  /**
+   * 根据 .vue 文件路径查找已同步的虚拟文档（不重新同步）
+   */
+  find(fileName: string): VirtualDocument | undefined {
+    return this.documents.get(this.toSourceUri(fileName).toString());
+  }
+
+  /**
+   * .vue 文件是否有已同步到 TSGo 的虚拟文档
+   */
+  has(sourceUri: URI): boolean {
+    return this.documents.has(sourceUri.toString());
+  }
+
+  /**
+   * 根据 TSGo 中的虚拟文件 URI 查找虚拟文档
+   */
+  getByVirtualUri(uri: string): VirtualDocument | undefined {
+    for (const document of this.documents.values()) {
+      if (isSameUri(document.uri, uri)) {
+        return document;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取文件的文本内容（优先使用已打开的 .vue 源文件和 TSGo 中的文档，否则读取磁盘）
+   */
+  getTextDocument(fileName: string): TextDocument | undefined {
+    const uri = URI.file(fileName);
+    const document = this.documents.get(uri.toString());
+    if (document) {
+      return document.source;
+    }
+
+    const synced = this.tsgoBackend.getDocument(uri.toString());
+    if (synced) {
+      return synced;
+    }
+
+    try {
+      const text = fs.readFileSync(fileName, "utf8");
+      return TextDocument.create(uri.toString(), "typescript", 0, text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 将 TSGo 返回的位置转换为源文件位置
+   * 虚拟文件中的范围会通过 Vue 的映射还原到 .vue 文件，普通文件原样返回
+   */
+  toSourceLocation(
+    uri: string,
+    range: Range,
+    filter?: (data: CodeInformation) => boolean
+  ):
+    | {
+        fileName: string;
+        document: TextDocument;
+        range: Range;
+      }
+    | undefined {
+    const virtualDocument = this.getByVirtualUri(uri);
+    if (virtualDocument) {
+      const sourceRange = this.toSourceRange(virtualDocument, range, filter);
+      if (!sourceRange) {
+        return undefined;
+      }
+      return {
+        fileName: virtualDocument.sourceUri.fsPath,
+        document: virtualDocument.source,
+        range: sourceRange,
+      };
+    }
+
+    const fileName = this.toSourceUri(URI.parse(uri).fsPath).fsPath;
+    if (isQueryFileName(fileName)) {
+      return undefined;
+    }
+    if (isVirtualFileName(fileName)) {
+      // 未打开的 .vue 文件没有可用的映射
+      logger.debug("无法映射未打开的虚拟文件", { uri });
+      return undefined;
+    }
+
+    const document = this.getTextDocument(fileName);
+    if (!document) {
+      return undefined;
+    }
+    return { fileName, document, range };
+  }
+
+  /**
+   * 虚拟文件对应的 .vue 文件开头
+   * 虚拟文件中有些位置没有映射（如生成的 export default），跳转定义时退回到组件文件本身；
+   * 非虚拟文件返回 undefined
+   */
+  toSourceFileStart(uri: string):
+    | {
+        fileName: string;
+        document: TextDocument;
+        range: Range;
+      }
+    | undefined {
+    const virtualFileName = URI.parse(uri).fsPath;
+    if (!isVirtualFileName(virtualFileName)) {
+      return undefined;
+    }
+    const fileName =
+      this.getByVirtualUri(uri)?.sourceUri.fsPath ??
+      this.toSourceUri(virtualFileName.replace(/\.[cm]?[jt]sx?$/, "")).fsPath;
+    const document = this.getTextDocument(fileName);
+    if (!document) {
+      return undefined;
+    }
+    const start = { line: 0, character: 0 };
+    return { fileName, document, range: { start, end: start } };
+  }
+
+  /**
+   * 同步虚拟文档对应的查询文档：在虚拟代码末尾追加查询语句，返回语句末尾的位置
+   * 查询文档与虚拟文档位于同一目录，保证相对导入可以正常解析
+   */
+  async syncQueryDocument(
+    document: VirtualDocument,
+    query: string
+  ): Promise<{ uri: string; position: Position }> {
+    const uri = toQueryUri(document.uri);
+    const text = `${document.generated.getText()}\n;\n${query}`;
+    await this.tsgoBackend.syncDocument(uri, document.languageId, text);
+
+    const synced =
+      this.tsgoBackend.getDocument(uri) ??
+      TextDocument.create(uri, document.languageId, 0, text);
+    return { uri, position: synced.positionAt(text.length) };
+  }
+
+  /**
+   * 所有已打开的虚拟文档
+   */
+  all(): VirtualDocument[] {
+    return [...this.documents.values()];
+  }
+
+  /**
+   * 将 .vue 源文件中的位置映射到虚拟代码中的位置
+   */
+  toGeneratedPosition(
+    document: VirtualDocument,
+    position: Position,
+    filter?: (data: CodeInformation) => boolean
+  ): Position | undefined {
+    return this.toGeneratedLocation(document, position, filter)?.position;
+  }
+
+  /**
+   * 将 .vue 源文件中的位置映射到虚拟代码中，同时返回所用映射的数据
+   */
+  toGeneratedLocation(
+    document: VirtualDocument,
+    position: Position,
+    filter?: (data: CodeInformation) => boolean
+  ): { position: Position; data: CodeInformation } | undefined {
+    const sourceOffset = document.source.offsetAt(position);
+    let fallback: { position: Position; data: CodeInformation } | undefined;
+    for (const [generatedOffset, mapping] of document.map.toGeneratedLocation(
+      sourceOffset,
+      filter
+    )) {
+      // 优先选择位置落在映射内部且长度一致的映射（标识符本身），
+      // 而不是仅在边界处相接的映射或包裹它的生成表达式
+      const inside = mapping.sourceOffsets.some(
+        (start, i) =>
+          sourceOffset >= start && sourceOffset < start + mapping.lengths[i]
+      );
+      const sameLength =
+        !mapping.generatedLengths ||
+        mapping.generatedLengths.every((l, i) => l === mapping.lengths[i]);
+      const location = {
+        position: document.generated.positionAt(generatedOffset),
+        data: mapping.data,
+      };
+      if (inside && sameLength) {
+        return location;
+      }
+      fallback ??= location;
+    }
+    return fallback;
+  }
+
+  /**
+   * 将 .vue 源文件中的范围映射为虚拟代码中的范围（如选区、诊断范围）
+   * 起止位置分别映射；只有一端能映射时，另一端取该端所在映射的边界
+   */
+  toGeneratedRange(
+    document: VirtualDocument,
+    range: Range,
+    filter?: (data: CodeInformation) => boolean
+  ): Range | undefined {
+    const start = document.source.offsetAt(range.start);
+    const end = document.source.offsetAt(range.end);
+    const toRange = (generatedStart: number, generatedEnd: number) => ({
+      start: document.generated.positionAt(generatedStart),
+      end: document.generated.positionAt(generatedEnd),
+    });
+
+    for (const [generatedStart, generatedEnd] of document.map.toGeneratedRange(
+      start,
+      end,
+      true,
+      filter
+    )) {
+      return toRange(generatedStart, generatedEnd);
+    }
+    for (const [generatedStart, mapping] of document.map.toGeneratedLocation(
+      start,
+      filter
+    )) {
+      const [, segmentEnd] = findGeneratedSegment(mapping, generatedStart);
+      return toRange(generatedStart, segmentEnd);
+    }
+    for (const [generatedEnd, mapping] of document.map.toGeneratedLocation(
+      end,
+      filter
+    )) {
+      const [segmentStart] = findGeneratedSegment(mapping, generatedEnd);
+      return toRange(segmentStart, generatedEnd);
+    }
+    return undefined;
+  }
+
+  /**
+   * 将 .vue 源文件中的区域映射为覆盖其中所有映射的虚拟代码范围
+   * 用于可见区域等大范围请求（内联提示、语义标记）：模板与脚本生成代码的顺序
+   * 不一定与源文件一致，这里取所有相交映射的最小覆盖区间
+   */
+  toGeneratedCoveringRange(
+    document: VirtualDocument,
+    range: Range,
+    filter?: (data: CodeInformation) => boolean
+  ): Range | undefined {
+    const start = document.source.offsetAt(range.start);
+    const end = document.source.offsetAt(range.end);
+    let generatedStart: number | undefined;
+    let generatedEnd: number | undefined;
+
+    for (const mapping of document.map.mappings) {
+      if (filter && !filter(mapping.data)) {
+        continue;
+      }
+      mapping.sourceOffsets.forEach((sourceStart, i) => {
+        const sourceEnd = sourceStart + mapping.lengths[i];
+        if (sourceEnd < start || sourceStart > end) {
+          return;
+        }
+        const generatedOffset = mapping.generatedOffsets[i];
+        const generatedLength =
+          mapping.generatedLengths?.[i] ?? mapping.lengths[i];
+        generatedStart = Math.min(
+          generatedStart ?? generatedOffset,
+          generatedOffset
+        );
+        generatedEnd = Math.max(
+          generatedEnd ?? generatedOffset + generatedLength,
+          generatedOffset + generatedLength
+        );
+      });
+    }
+
+    if (generatedStart === undefined || generatedEnd === undefined) {
+      return undefined;
+    }
+    return {
+      start: document.generated.positionAt(generatedStart),
+      end: document.generated.positionAt(generatedEnd),
+    };
+  }
+
+  /**
+   * 将虚拟代码中的范围映射回 .vue 源文件
+   */
+  toSourceRange(
+    document: VirtualDocument,
+    range: Range,
+    filter?: (data: CodeInformation) => boolean
+  ): Range | undefined {
+    return this.toSourceMappedRange(document, range, filter)?.range;
+  }
+
+  /**
+   * 将虚拟代码中的范围映射回 .vue 源文件，同时返回所用映射的数据
+   */
+  toSourceMappedRange(
+    document: VirtualDocument,
+    range: Range,
+    filter?: (data: CodeInformation) => boolean
+  ): { range: Range; data: CodeInformation } | undefined {
+    const start = document.generated.offsetAt(range.start);
+    const end = document.generated.offsetAt(range.end);
+    for (const [sourceStart, sourceEnd, mapping] of document.map.toSourceRange(
+      start,
+      end,
+      true,
+      filter
+    )) {
+      return {
+        range: {
+          start: document.source.positionAt(sourceStart),
+          end: document.source.positionAt(sourceEnd),
+        },
+        data: mapping.data,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * 启用磁盘缓存时 Vue 语言服务插件传入的是缓存目录中的路径，转换回源文件
+   * TSGo 按缓存目录中的 tsconfig 解析时，返回的普通文件位置同样位于缓存目录中
+   */
+  toSourceUri(fileName: string): URI {
+    return URI.file(this.cache?.toSourceFileName(fileName) ?? fileName);
+  }
+
+  private async writeCache(document: VirtualDocument): Promise<void> {
+    if (!this.cache?.isEnabled()) {
+      return;
+    }
+    try {
+      await this.cache.write(
+        URI.parse(document.uri).fsPath,
+        document.generated.getText()
+      );
+    } catch (error) {
+      logger.error("写入虚拟文件缓存失败", error);
+    }
+  }
+
+  /**
+   * 从 Volar Language 中解析 .vue 文件的服务脚本
+   * 启用 writeVirtualFiles 时虚拟文件位于缓存目录中
+   */
+  private resolve(
+    language: Language<URI>,
+    sourceUri: URI
+  ): VirtualDocument | undefined {
+    const sourceScript = language.scripts.get(sourceUri);
+    if (!sourceScript?.generated) {
+      return undefined;
+    }
+
+    const serviceScript = (
+      sourceScript.generated.languagePlugin as any
+    ).typescript?.getServiceScript(sourceScript.generated.root);
+    if (!serviceScript) {
+      return undefined;
+    }
+
+    const code: VirtualCode = serviceScript.code;
+    const fileName =
+      this.cache?.toCacheFileName(sourceUri.fsPath) ?? sourceUri.fsPath;
+    const uri = URI.file(fileName + serviceScript.extension).toString();
+    const previous = this.documents.get(sourceUri.toString());
+    const languageId = toLanguageId(serviceScript.extension);
+
+    return {
+      sourceUri,
+      uri,
+      languageId,
+      sourceScript,
+      code,
+      map: language.maps.get(code, sourceScript),
+      source: createSnapshotDocument(
+        previous?.source,
+        sourceUri.toString(),
+        sourceScript.languageId,
+        sourceScript.snapshot.getText(0, sourceScript.snapshot.getLength())
+      ),
+      generated: createSnapshotDocument(
+        previous?.generated,
+        uri,
+        languageId,
+        code.snapshot.getText(0, code.snapshot.getLength())
+      ),
+    };
+  }
+}
+
+/**
+ * 内容未变化时复用之前的 TextDocument，避免重复计算行偏移
+ */
+function createSnapshotDocument(
+  previous: TextDocument | undefined,
+  uri: string,
+  languageId: string,
+  text: string
+): TextDocument {
+  if (previous && previous.uri === uri && previous.getText() === text) {
+    return previous;
+  }
+  return TextDocument.create(uri, languageId, (previous?.version ?? 0) + 1, text);
+}
+
+function toLanguageId(extension: string): string {
+  switch (extension) {
+    case ".js":
+      return "javascript";
+    case ".jsx":
+      return "javascriptreact";
+    case ".tsx":
+      return "typescriptreact";
+    default:
+      return "typescript";
+  }
+}
+
+/**
+ * 判断是否为 .vue 文件生成的虚拟文件名（如 App.vue.ts）
+ */
+export function isVirtualFileName(fileName: string): boolean {
+  return /\.vue\.[cm]?[jt]sx?$/.test(fileName);
+}
+
+/**
+ * 查询文档 URI（如 App.vue.ts -> App.vue.__query.ts）
+ */
+function toQueryUri(virtualUri: string): string {
+  return virtualUri.replace(/\.vue\.([cm]?[jt]sx?)$/, ".vue.__query.$1");
+}
+
+/**
+ * 查找映射中包含虚拟代码偏移的片段，返回片段的起止偏移
+ */
+function findGeneratedSegment(
+  mapping: Mapping<CodeInformation>,
+  offset: number
+): [number, number] {
+  for (let i = 0; i < mapping.generatedOffsets.length; i++) {
+    const start = mapping.generatedOffsets[i];
+    const end = start + (mapping.generatedLengths ?? mapping.lengths)[i];
+    if (offset >= start && offset <= end) {
+      return [start, end];
+    }
+  }
+  return [offset, offset];
+}
+
+/**
+ * 判断是否为组件信息查询使用的文档
+ */
+export function isQueryFileName(fileName: string): boolean {
+  return /\.vue\.__query\.[cm]?[jt]sx?$/.test(fileName);
+}
+
+function isSameUri(a: string, b: string): boolean {
+  return a === b || URI.parse(a).fsPath === URI.parse(b).fsPath;
+}
@@ -0,0 +1,429 @@
+import * as vscode from "vscode-languageserver/node";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { TsgoBackendPool } from "./tsgo-backend-pool";
+import { Logger } from "../utils/logger";
+import { ServerConfigManager } from "../utils/server-config";
+import {
+  isTsConfigFileName,
+  normalizeFileName,
+  VueTsConfig,
+} from "../utils/tsconfig";
+
+const logger = Logger.scope("virtual-file-cache");
+
+/**
+ * 写入生成的 tsconfig 的说明，避免被误认为用户配置
+ */
+const GENERATED_NOTICE = "由 Vue TSGo 生成，请勿手动修改";
+
+/**
+ * 生成的 tsconfig 只包含虚拟文件，其余源码通过 files 或导入引入
+ */
+const VIRTUAL_FILE_PATTERNS = [
+  "**/*.vue.ts",
+  "**/*.vue.tsx",
+  "**/*.vue.js",
+  "**/*.vue.jsx",
+];
+
+interface CacheRoot {
+  /** 工作区文件夹 */
+  folder: string;
+  /** 工作区对应的缓存目录 */
+  cacheRoot: string;
+}
+
+/**
+ * 虚拟文件磁盘缓存
+ * 启用 writeVirtualFiles 后，按工作区目录结构将 .vue 的虚拟代码写入 cacheDir
+ * （如 src/App.vue -> .vue-tsgo/cache/src/App.vue.ts），并为工程生成 tsconfig，
+ * TSGo 即可从磁盘解析未打开的 .vue 文件的导入
+ *
+ * 缓存目录中的其他文件和子目录以符号链接指向工作区，
+ * 保证虚拟代码中的相对导入（如 ./utils）在缓存目录中同样可以解析
+ */
+export class VirtualFileCache {
+  /** 已写入的文件内容（缓存文件 -> 文本），内容未变化时不重复写入 */
+  private written = new Map<string, string>();
+  /** 为 tsconfig 工程生成的配置文件，推断工程的配置不能覆盖它们 */
+  private projectConfigs = new Set<string>();
+  /** 已创建并链接了工作区文件的缓存目录 */
+  private mirroredDirs = new Set<string>();
+
+  constructor(private tsgoBackend: TsgoBackendPool) {}
+
+  /**
+   * 是否启用磁盘缓存
+   */
+  isEnabled(): boolean {
+    return ServerConfigManager.isVirtualFileCacheEnabled();
+  }
+
+  /**
+   * 获取源文件对应的缓存路径，未启用或不在工作区内时原样返回
+   * 生成虚拟代码时使用该路径，保证生成代码中的相对引用（如 template-helpers.d.ts）在缓存目录中有效
+   */
+  toCacheFileName(fileName: string): string {
+    if (!this.isEnabled()) {
+      return fileName;
+    }
+    const root = this.getCacheRoot(fileName);
+    if (!root || isInside(root.cacheRoot, fileName)) {
+      return fileName;
+    }
+    return toMirrorPath(root, fileName);
+  }
+
+  /**
+   * toCacheFileName 的逆操作：缓存目录中的路径转换为工作区中的源文件路径
+   * Vue 语言服务插件使用生成代码时的文件名（即缓存路径）发起请求
+   */
+  toSourceFileName(fileName: string): string {
+    const root = this.getCacheRoot(fileName);
+    if (!root || !isInside(root.cacheRoot, fileName)) {
+      return fileName;
+    }
+    return normalizeFileName(
+      path.join(root.folder, path.relative(root.cacheRoot, fileName))
+    );
+  }
+
+  /**
+   * 判断文件是否位于缓存目录中
+   */
+  isCacheFileName(fileName: string): boolean {
+    const root = this.getCacheRoot(fileName);
+    return !!root && isInside(root.cacheRoot, fileName);
+  }
+
+  /**
+   * 写入虚拟文件，并通知 TSGo 重新读取
+   */
+  async write(fileName: string, text: string): Promise<void> {
+    const root = this.getCacheRoot(fileName);
+    if (
+      !root ||
+      !isInside(root.cacheRoot, fileName) ||
+      this.written.get(fileName) === text
+    ) {
+      return;
+    }
+
+    await this.ensureMirrorDirectory(root, path.dirname(fileName));
+    const stat = await lstat(fileName);
+    if (stat?.isSymbolicLink()) {
+      // 同名文件可能已链接到工作区，不能通过链接覆盖源文件
+      await fs.unlink(fileName);
+    }
+    await fs.writeFile(fileName, text, "utf8");
+    this.written.set(fileName, text);
+
+    await this.notify(
+      fileName,
+      stat && !stat.isSymbolicLink()
+        ? vscode.FileChangeType.Changed
+        : vscode.FileChangeType.Created
+    );
+  }
+
+  /**
+   * 删除已删除的 .vue 文件在缓存目录中的虚拟文件（服务脚本的扩展名取决于 lang，逐一尝试）
+   */
+  async removeVirtualFiles(sourceFileName: string): Promise<void> {
+    const fileName = this.toCacheFileName(sourceFileName);
+    for (const extension of [".ts", ".tsx", ".js", ".jsx"]) {
+      await this.remove(fileName + extension);
+    }
+  }
+
+  /**
+   * 工作区中新建的文件链接到缓存目录，删除的文件同时移除其链接
+   */
+  async syncLink(sourceFileName: string, deleted: boolean): Promise<void> {
+    const root = this.getCacheRoot(sourceFileName);
+    const fileName = this.toCacheFileName(sourceFileName);
+    if (
+      !root ||
+      fileName === sourceFileName ||
+      !this.mirroredDirs.has(path.dirname(fileName))
+    ) {
+      return;
+    }
+
+    const stat = await lstat(fileName);
+    if (deleted) {
+      if (stat?.isSymbolicLink()) {
+        await fs.unlink(fileName);
+        await this.notify(fileName, vscode.FileChangeType.Deleted);
+      }
+    } else if (!stat && (await this.link(sourceFileName, fileName))) {
+      await this.notify(fileName, vscode.FileChangeType.Created);
+    }
+  }
+
+  /**
+   * 为源文件所属的工程生成缓存目录中的 tsconfig.json
+   * 配置继承原 tsconfig，并将 paths 扩展到缓存目录；推断工程使用 inferredCompilerOptions
+   */
+  async writeTsConfig(
+    sourceFileName: string,
+    tsconfig: VueTsConfig | undefined
+  ): Promise<void> {
+    const root = this.getCacheRoot(sourceFileName);
+    if (!this.isEnabled() || !root) {
+      return;
+    }
+
+    const projectDir = tsconfig
+      ? path.dirname(tsconfig.configFileName)
+      : root.folder;
+    const fileName = path.join(
+      isInside(root.folder, projectDir)
+        ? toMirrorPath(root, projectDir)
+        : root.cacheRoot,
+      "tsconfig.json"
+    );
+    if (!tsconfig && this.projectConfigs.has(fileName)) {
+      return;
+    }
+
+    const compilerOptions: Record<string, unknown> = tsconfig
+      ? {}
+      : { ...ServerConfigManager.getInferredCompilerOptions() };
+    const paths = tsconfig && this.mapPaths(tsconfig, root);
+    if (paths) {
+      compilerOptions.paths = paths;
+    }
+    compilerOptions.composite = false;
+    compilerOptions.noEmit = true;
+
+    const config = {
+      "//": GENERATED_NOTICE,
+      ...(tsconfig
+        ? {
+            extends: normalizeFileName(tsconfig.configFileName),
+            // 保留原工程中的非 .vue 文件（如声明全局类型的 env.d.ts）
+            files: tsconfig.fileNames.filter(
+              (fileName) => !fileName.endsWith(".vue")
+            ),
+          }
+        : {}),
+      compilerOptions,
+      include: VIRTUAL_FILE_PATTERNS,
+    };
+
+    if (tsconfig) {
+      this.projectConfigs.add(fileName);
+    }
+    logger.debug("生成缓存 tsconfig", {
+      fileName,
+      tsconfig: tsconfig?.configFileName,
+    });
+    await this.write(fileName, JSON.stringify(config, null, 2) + "\n");
+  }
+
+  /**
+   * 清空所有工作区的缓存目录
+   * 删除的只是符号链接本身，不会影响链接指向的工作区文件
+   */
+  async clear(): Promise<void> {
+    this.written.clear();
+    this.projectConfigs.clear();
+    this.mirroredDirs.clear();
+
+    for (const folder of ServerConfigManager.getWorkspaceFolders()) {
+      const cacheRoot = resolveCacheRoot(folder);
+      if (!cacheRoot) {
+        logger.warn("cacheDir 不能是工作区或其上级目录，已跳过清理", {
+          folder,
+        });
+        continue;
+      }
+      logger.log("清理虚拟文件缓存", { cacheRoot });
+      try {
+        await fs.rm(cacheRoot, { recursive: true, force: true });
+      } catch (error) {
+        logger.error(`清理 ${cacheRoot} 失败`, error);
+      }
+    }
+  }
+
+  private async remove(fileName: string): Promise<void> {
+    if (!this.isCacheFileName(fileName)) {
+      return;
+    }
+    this.written.delete(fileName);
+    if (!(await lstat(fileName))) {
+      return;
+    }
+
+    await fs.rm(fileName, { force: true });
+    await this.notify(fileName, vscode.FileChangeType.Deleted);
+  }
+
+  private async notify(
+    fileName: string,
+    type: vscode.FileChangeType
+  ): Promise<void> {
+    await this.tsgoBackend.didChangeWatchedFiles([
+      { uri: URI.file(fileName).toString(), type },
+    ]);
+  }
+
+  /**
+   * 确保缓存目录及其上级目录是真实目录，并链接工作区中对应目录下的文件
+   * 之前作为符号链接的目录（其中原本没有 .vue 文件）会被替换为真实目录
+   */
+  private async ensureMirrorDirectory(
+    root: CacheRoot,
+    dir: string
+  ): Promise<void> {
+    const segments = path.relative(root.cacheRoot, dir).split(path.sep);
+    let current = root.cacheRoot;
+    for (const segment of ["", ...segments]) {
+      current = path.join(current, segment);
+      if (this.mirroredDirs.has(current)) {
+        continue;
+      }
+
+      if ((await lstat(current))?.isSymbolicLink()) {
+        await fs.unlink(current);
+      }
+      await fs.mkdir(current, { recursive: true });
+      if (current === root.cacheRoot) {
+        // 避免缓存文件被提交
+        await fs.writeFile(path.join(current, ".gitignore"), "*\n", "utf8");
+      }
+      await this.linkEntries(root, current);
+      this.mirroredDirs.add(current);
+    }
+  }
+
+  /**
+   * 将工作区目录下的文件和子目录链接到缓存目录中（.vue 文件与 tsconfig 除外）
+   */
+  private async linkEntries(root: CacheRoot, dir: string): Promise<void> {
+    const sourceDir = path.join(
+      root.folder,
+      path.relative(root.cacheRoot, dir)
+    );
+    let entries: string[];
+    try {
+      entries = await fs.readdir(sourceDir);
+    } catch {
+      return;
+    }
+
+    for (const name of entries) {
+      const source = path.join(sourceDir, name);
+      const target = path.join(dir, name);
+      if (
+        name.endsWith(".vue") ||
+        isTsConfigFileName(name) ||
+        (dir === root.cacheRoot && name === ".gitignore") ||
+        isInside(source, root.cacheRoot) ||
+        (await lstat(target))
+      ) {
+        continue;
+      }
+      await this.link(source, target);
+    }
+  }
+
+  private async link(source: string, target: string): Promise<boolean> {
+    try {
+      const stat = await fs.stat(source);
+      await fs.symlink(
+        source,
+        target,
+        stat.isDirectory() ? "junction" : "file"
+      );
+      return true;
+    } catch (error) {
+      logger.debug("链接工作区文件失败", { source, error: String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * 将 paths 的每个目标同时映射到工作区和缓存目录，使别名导入的 .vue 文件也能解析
+   */
+  private mapPaths(
+    tsconfig: VueTsConfig,
+    root: CacheRoot
+  ): Record<string, string[]> | undefined {
+    const options = tsconfig.commandLine.options;
+    if (!options.paths) {
+      return undefined;
+    }
+
+    const baseDir =
+      options.baseUrl ??
+      (options.pathsBasePath as string | undefined) ??
+      path.dirname(tsconfig.configFileName);
+    const paths: Record<string, string[]> = {};
+    for (const [pattern, targets] of Object.entries(options.paths)) {
+      paths[pattern] = targets.flatMap((target) => {
+        const fileName = path.resolve(baseDir, target);
+        return isInside(root.folder, fileName)
+          ? [normalizeFileName(fileName), toMirrorPath(root, fileName)]
+          : [normalizeFileName(fileName)];
+      });
+    }
+    return paths;
+  }
+
+  /**
+   * 查找文件（源文件或缓存文件）所在的工作区及其缓存目录（嵌套工作区取最内层）
+   */
+  private getCacheRoot(fileName: string): CacheRoot | undefined {
+    let result: CacheRoot | undefined;
+    for (const folder of ServerConfigManager.getWorkspaceFolders()) {
+      const cacheRoot = resolveCacheRoot(folder);
+      if (
+        cacheRoot &&
+        (isInside(folder, fileName) || isInside(cacheRoot, fileName)) &&
+        (!result || folder.length > result.folder.length)
+      ) {
+        result = { folder, cacheRoot };
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * 解析工作区的缓存目录
+ * 缓存目录是工作区本身或其上级目录时返回 undefined，避免写入或清理时误删源码
+ */
+function resolveCacheRoot(folder: string): string | undefined {
+  const cacheRoot = path.resolve(folder, ServerConfigManager.getCacheDir());
+  return isInside(cacheRoot, folder) ? undefined : cacheRoot;
+}
+
+/**
+ * 工作区中的路径在缓存目录中的对应路径
+ */
+function toMirrorPath(root: CacheRoot, fileName: string): string {
+  return normalizeFileName(
+    path.join(root.cacheRoot, path.relative(root.folder, fileName))
+  );
+}
+
+/**
+ * 判断 fileName 是否为 dir 或位于 dir 之内
+ */
+function isInside(dir: string, fileName: string): boolean {
+  const relative = path.relative(dir, fileName);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+async function lstat(fileName: string) {
+  try {
+    return await fs.lstat(fileName);
+  } catch {
+    return undefined;
+  }
+}
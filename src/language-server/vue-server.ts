@@ -1,9 +1,9 @@
 import * as vscode from "vscode-languageserver/node";
+import * as fs from "fs";
+import * as path from "path";
 import { createConnection, createServer } from "@volar/language-server/node";
-import {
-  createLanguageServiceEnvironment,
-  createSimpleProject,
-} from "@volar/language-server/lib/project/simpleProject";
+import type { LanguageServerProject } from "@volar/language-server";
+import { createLanguageServiceEnvironment } from "@volar/language-server/lib/project/simpleProject";
 import {
   createLanguage,
   createParsedCommandLine,
@@ -14,13 +14,54 @@ import {
   createLanguageService,
   createUriMap,
   createVueLanguageServicePlugins,
+  LanguageService,
 } from "@vue/language-service";
 import * as ts from "typescript";
 import { URI } from "vscode-uri";
-import { TsgoBackend } from "./tsgo-backend";
+import { TsgoBackendStatus } from "./tsgo-backend";
+import { TsgoBackendPool } from "./tsgo-backend-pool";
 import { Logger } from "../utils/logger";
 import { ServerConfigManager } from "../utils/server-config";
+import {
+  isTsConfigFileName,
+  normalizeFileName,
+  parseVueTsConfig,
+  VueTsConfig,
+} from "../utils/tsconfig";
 import { createTsgoPluginClient } from "./tsgo-plugin-client";
+import { createTsgoServicePlugin } from "./tsgo-service-plugin";
+import { VirtualDocumentManager } from "./virtual-documents";
+import { VirtualFileCache } from "./virtual-file-cache";
+
+const logger = Logger.scope("vue-server");
+
+/**
+ * 变化后需要重建工程的配置项
+ */
+const PROJECT_CONFIG_KEYS = [
+  "inferredCompilerOptions",
+  "writeVirtualFiles",
+  "cacheDir",
+];
+
+/**
+ * 需要监听变化的文件（源码、tsconfig 与 package.json）
+ */
+const WATCHED_FILES_PATTERN = "**/*.{vue,js,jsx,mjs,cjs,ts,tsx,mts,cts,json}";
+
+/**
+ * vueTsgo/serverStatus 请求返回的服务器状态
+ */
+export interface ServerStatus {
+  /** 各工作区文件夹的 TSGo 进程 */
+  tsgo: TsgoBackendStatus[];
+  /** 已同步到 TSGo 的虚拟文档 */
+  virtualDocuments: { source: string; uri: string; version: number }[];
+  /** 已创建的工程（tsconfig 路径，推断工程为 undefined） */
+  projects: (string | undefined)[];
+  /** 是否启用虚拟文件磁盘缓存 */
+  writeVirtualFiles: boolean;
+}
 
 /**
  * Vue Language Server
@@ -29,13 +70,34 @@ import { createTsgoPluginClient } from "./tsgo-plugin-client";
 export class VueLanguageServer {
   private connection: vscode.Connection;
   private server: ReturnType<typeof createServer>;
-  private tsgoBackend: TsgoBackend;
-  private tsconfigProjects = createUriMap<any>();
+  private tsgoBackend: TsgoBackendPool;
+  private virtualDocuments: VirtualDocumentManager;
+  private virtualFileCache: VirtualFileCache;
+  private tsconfigProjects = createUriMap<LanguageService>();
+  /** 工程 tsconfig -> extends 链上的配置文件，用于判断共享配置修改影响哪些工程 */
+  private tsconfigExtends = createUriMap<string[]>();
+  private inferredProject: LanguageService | undefined;
+  /** 工程虚拟文件缓存的写入任务（启用 writeVirtualFiles 时） */
+  private cacheWrites = new WeakMap<LanguageService, Promise<void>>();
+  /** 配置变化的处理任务，按顺序串行执行 */
+  private configChanges: Promise<void> = Promise.resolve();
+  /** 文件 -> 所属 tsconfig 的解析缓存（undefined 表示推断工程） */
+  private fileTsconfigs = createUriMap<string | undefined>();
+  /** 已解析的 tsconfig（文件列表用于判断 include/exclude） */
+  private parsedTsconfigs = new Map<
+    string,
+    { tsconfig: VueTsConfig; fileNames: Set<string> } | undefined
+  >();
 
   constructor() {
     this.connection = createConnection();
     this.server = createServer(this.connection);
-    this.tsgoBackend = new TsgoBackend();
+    this.tsgoBackend = new TsgoBackendPool();
+    this.virtualFileCache = new VirtualFileCache(this.tsgoBackend);
+    this.virtualDocuments = new VirtualDocumentManager(
+      this.tsgoBackend,
+      this.virtualFileCache
+    );
     try {
       Logger.setServerConnection(this.server.connection);
     } catch {}
@@ -45,10 +107,12 @@ export class VueLanguageServer {
    * 启动语言服务器
    */
   async start(): Promise<void> {
-    Logger.log("启动 Vue Language Server");
+    logger.log("启动 Vue Language Server");
 
     // 设置连接监听
     this.setupConnectionHandlers();
+    this.setupDocumentHandlers();
+    this.setupConfigurationHandlers();
 
     // 开始监听
     this.connection.listen();
@@ -59,7 +123,7 @@ export class VueLanguageServer {
    */
   private setupConnectionHandlers(): void {
     this.connection.onInitialize((params) => {
-      Logger.log("Vue Language Server 初始化", params);
+      logger.log("Vue Language Server 初始化");
 
       // 设置服务器端配置
       const workspaceFolders =
@@ -71,57 +135,494 @@ export class VueLanguageServer {
       // 从初始化参数中获取配置
       const config = params.initializationOptions?.config || {};
       ServerConfigManager.setConfig(config);
-
-      const commandLine = createParsedCommandLineByJson(
-        ts,
-        ts.sys,
-        ts.sys.getCurrentDirectory(),
-        {}
-      );
-
-      const languagePlugins = [
-        {
-          getLanguageId: (uri: URI) =>
-            this.server.documents.get(uri)?.languageId,
-        },
-        createVueLanguagePlugin(
-          ts,
-          commandLine.options,
-          commandLine.vueOptions,
-          (uri: URI) => uri.fsPath.replace(/\\/g, "/")
-        ),
-      ];
+      Logger.setLevel(ServerConfigManager.getLogLevel());
+      logger.debug("初始化参数", params);
 
       const languageServicePlugins = this.createCustomLanguageServicePlugins();
 
       return this.server.initialize(
         params,
-        createSimpleProject(languagePlugins),
+        this.createProject(),
         languageServicePlugins
       );
     });
 
     this.connection.onInitialized(() => {
-      Logger.log("Vue Language Server 初始化完成");
+      logger.log("Vue Language Server 初始化完成");
       this.server.initialized();
+      // 由服务器注册文件监听，变化通过 workspace/didChangeWatchedFiles 通知
+      this.server.fileWatcher
+        .watchFiles([WATCHED_FILES_PATTERN])
+        .catch((err) => logger.error("注册文件监听失败", err));
       // 初始化完成后再启动 TSGo，避免阻塞 LSP 初始化握手
-      this.tsgoBackend
-        .start()
-        .then(() => Logger.log("TSGo 后端启动成功（post-initialized）"))
-        .catch((err) => Logger.error("TSGo 后端启动失败", err));
+      this.startTsgoBackend().catch((err) =>
+        logger.error("TSGo 后端启动失败", err)
+      );
+    });
+
+    // Volar 处理 workspace/didChangeWorkspaceFolders 并重新加载工程后通知
+    this.server.workspaceFolders.onDidChange(() => {
+      this.updateWorkspaceFolders().catch((err) =>
+        logger.error("处理工作区文件夹变化失败", err)
+      );
+    });
+
+    this.connection.onRequest("vueTsgo/serverStatus", () =>
+      this.getServerStatus()
+    );
+
+    // 关闭 TSGo 中的所有虚拟文档并重新生成（启用磁盘缓存时同时清空缓存目录）
+    this.connection.onRequest("vueTsgo/clearVirtualDocs", async () => {
+      logger.log("清理虚拟文档");
+      // TSGo 只在打开文件时查找 tsconfig，关闭后重新打开才会使用新生成的配置
+      await this.virtualDocuments.closeAll();
+      if (this.virtualFileCache.isEnabled()) {
+        await this.virtualFileCache.clear();
+      }
+      this.disposeProjects();
+      this.resyncOpenDocuments();
     });
 
     this.connection.onShutdown(() => {
-      Logger.log("Vue Language Server 关闭");
+      logger.log("Vue Language Server 关闭");
       return this.tsgoBackend.stop();
     });
   }
 
+  /**
+   * 工作区文件夹变化：为新增文件夹启动 TSGo、停止已移除文件夹的 TSGo，
+   * 并按新的文件夹划分重新同步虚拟文档
+   */
+  private async updateWorkspaceFolders(): Promise<void> {
+    ServerConfigManager.setWorkspaceFolders(
+      this.server.workspaceFolders.all.map((uri) => uri.fsPath)
+    );
+    await this.tsgoBackend.updateWorkspaceFolders();
+    this.disposeProjects();
+    this.resyncOpenDocuments();
+  }
+
+  /**
+   * 汇总服务器状态，用于在编辑器中排查问题
+   */
+  private getServerStatus(): ServerStatus {
+    return {
+      tsgo: this.tsgoBackend.getStatus(),
+      virtualDocuments: this.virtualDocuments.all().map((document) => ({
+        source: document.sourceUri.fsPath,
+        uri: document.uri,
+        version: document.generated.version,
+      })),
+      projects: [
+        ...[...this.tsconfigProjects.keys()].map((uri) => uri.fsPath),
+        ...(this.inferredProject ? [undefined] : []),
+      ],
+      writeVirtualFiles: this.virtualFileCache.isEnabled(),
+    };
+  }
+
+  /**
+   * 设置文档生命周期处理器，将 .vue 的虚拟代码同步到 TSGo
+   */
+  private setupDocumentHandlers(): void {
+    this.server.documents.onDidOpen(({ document }) => {
+      this.syncVirtualDocument(URI.parse(document.uri));
+    });
+
+    this.server.documents.onDidChangeContent(({ document }) => {
+      this.syncVirtualDocument(URI.parse(document.uri));
+    });
+
+    // TSGo 推送诊断更新后，通过 Vue Server 重新向编辑器发布诊断
+    this.tsgoBackend.onDidPublishDiagnostics((uri) => {
+      if (this.virtualDocuments.getByVirtualUri(uri)) {
+        this.server.languageFeatures.requestRefresh(false);
+      }
+    });
+
+    // TSGo 崩溃重启后文档已重新打开，刷新编辑器中的诊断等信息
+    this.tsgoBackend.onDidRecover(() => {
+      this.server.languageFeatures.requestRefresh(false);
+    });
+
+    this.tsgoBackend.onDidCrashLoop((message) => {
+      this.connection.window.showErrorMessage(
+        `Vue TSGo: ${message}。请检查 TSGo 日志后执行 “Vue TSGo: 重启服务器”。`
+      );
+    });
+
+    this.server.documents.onDidClose(({ document }) => {
+      const uri = URI.parse(document.uri);
+      this.virtualDocuments
+        .close(uri)
+        // 缓存中是编辑器里的内容，关闭后（可能放弃了未保存的修改）按磁盘内容重新生成
+        .then(() => this.materializeVirtualDocument(uri))
+        .catch((err) => logger.error("关闭虚拟文档失败", err));
+    });
+
+    this.server.fileWatcher.onDidChangeWatchedFiles(({ changes }) => {
+      this.handleWatchedFileChanges(changes).catch((err) =>
+        logger.error("处理文件变化失败", err)
+      );
+    });
+  }
+
+  /**
+   * 处理磁盘文件变化（如切换 git 分支）
+   * 转发给 TSGo，重新生成未打开的 .vue 文件的虚拟代码，并使受影响的工程缓存失效
+   */
+  private async handleWatchedFileChanges(
+    changes: vscode.FileEvent[]
+  ): Promise<void> {
+    // 缓存目录中的文件由服务器自己写入，写入时已通知 TSGo
+    changes = changes.filter(
+      (change) =>
+        !this.virtualFileCache.isCacheFileName(URI.parse(change.uri).fsPath)
+    );
+    if (!changes.length) {
+      return;
+    }
+
+    logger.debug("文件变化", { count: changes.length });
+    await this.tsgoBackend.didChangeWatchedFiles(changes);
+
+    const uris = changes.map((change) => URI.parse(change.uri));
+    if (uris.some((uri) => path.basename(uri.fsPath) === "package.json")) {
+      // 依赖变化可能影响所有工程（如 vue 版本、类型包）
+      logger.log("package.json 变化，重建所有工程");
+      this.disposeProjects();
+      this.resyncOpenDocuments();
+      return;
+    }
+
+    // extends 的共享配置不一定以 tsconfig 命名（如 configs/base.json）
+    const extendedFiles = new Set(
+      [...this.tsconfigExtends.values()].flat()
+    );
+    const tsconfigs = uris.filter(
+      (uri) =>
+        isTsConfigFileName(uri.fsPath) ||
+        extendedFiles.has(normalizeFileName(uri.fsPath))
+    );
+    if (tsconfigs.length) {
+      this.invalidateProjects(tsconfigs);
+      return;
+    }
+
+    // 新建或删除文件会改变 tsconfig include 的匹配结果
+    if (
+      changes.some((change) => change.type !== vscode.FileChangeType.Changed)
+    ) {
+      this.fileTsconfigs.clear();
+      this.parsedTsconfigs.clear();
+    }
+
+    for (const change of changes) {
+      const uri = URI.parse(change.uri);
+      if (
+        this.virtualFileCache.isEnabled() &&
+        !uri.fsPath.endsWith(".vue") &&
+        change.type !== vscode.FileChangeType.Changed
+      ) {
+        // 缓存目录通过符号链接引用工作区中的其他文件
+        await this.virtualFileCache.syncLink(
+          uri.fsPath,
+          change.type === vscode.FileChangeType.Deleted
+        );
+        continue;
+      }
+      if (!uri.fsPath.endsWith(".vue") || this.server.documents.get(uri)) {
+        continue;
+      }
+      if (this.virtualFileCache.isEnabled()) {
+        // 启用磁盘缓存时只更新缓存文件，TSGo 从磁盘读取
+        if (change.type === vscode.FileChangeType.Deleted) {
+          await this.virtualFileCache.removeVirtualFiles(uri.fsPath);
+        } else {
+          await this.materializeVirtualDocument(uri);
+        }
+      } else if (change.type === vscode.FileChangeType.Deleted) {
+        await this.virtualDocuments.close(uri);
+      } else if (this.virtualDocuments.has(uri)) {
+        // 只更新已在 TSGo 中打开的虚拟文档（从磁盘读取），
+        // 其余文件不打开，避免切换分支等批量修改后大量虚拟文档一直留在 TSGo 中
+        await this.syncVirtualDocument(uri);
+      }
+    }
+
+    await this.server.languageFeatures.requestRefresh(false);
+  }
+
+  /**
+   * 监听 vueTsgo 配置变化（workspace/didChangeConfiguration）
+   * 只处理发生变化的配置：tsgoPath 变化时重启 TSGo，编译相关配置变化时重建工程，
+   * 其余配置（如请求超时）在下次使用时自动生效
+   */
+  private setupConfigurationHandlers(): void {
+    this.server.configurations.onDidChange((params) => {
+      // 重启 TSGo 等操作是异步的，连续修改配置时需要依次应用，避免两次重启交错
+      this.configChanges = this.configChanges.then(() =>
+        this.applyConfigurationChange(params)
+      );
+    });
+  }
+
+  /**
+   * 读取并应用最新的 vueTsgo 配置
+   */
+  private async applyConfigurationChange(
+    params: vscode.DidChangeConfigurationParams
+  ): Promise<void> {
+    try {
+      const config =
+        (await this.server.configurations.get<Record<string, any>>(
+          "vueTsgo"
+        )) ?? params.settings?.vueTsgo;
+      if (!config) {
+        return;
+      }
+
+      const changed = ServerConfigManager.updateConfig(config);
+      if (!changed.length) {
+        return;
+      }
+      if (changed.includes("trace")) {
+        Logger.setLevel(ServerConfigManager.getLogLevel());
+      }
+      logger.log("vueTsgo 配置已更新", { changed });
+
+      if (changed.includes("tsgoPath")) {
+        logger.log("tsgoPath 已变化，重启 TSGo 后端");
+        await this.tsgoBackend.stop();
+        await this.startTsgoBackend();
+      } else if (changed.includes("inlayHints")) {
+        await this.tsgoBackend.notifyConfigurationChanged();
+      }
+
+      if (changed.some((key) => PROJECT_CONFIG_KEYS.includes(key))) {
+        logger.log("编译相关配置已变化，重建工程");
+        this.disposeProjects();
+        this.resyncOpenDocuments();
+      } else {
+        await this.server.languageFeatures.requestRefresh(false);
+      }
+    } catch (error) {
+      logger.error("处理配置变化失败", error);
+    }
+  }
+
+  /**
+   * 启动 TSGo 后端，成功后同步已打开的文档
+   */
+  private async startTsgoBackend(): Promise<void> {
+    await this.tsgoBackend.start();
+    if (!this.tsgoBackend.isRunning()) {
+      this.connection.window.showErrorMessage(
+        `Vue TSGo: TSGo 后端启动失败。${this.tsgoBackend.getLastError() ?? ""}`
+      );
+      return;
+    }
+    logger.log("TSGo 后端启动成功");
+    // 同步 TSGo 启动前已打开的文档
+    this.resyncOpenDocuments();
+  }
+
+  /**
+   * 重新生成 .vue 文件的虚拟代码并同步到 TSGo
+   */
+  private async syncVirtualDocument(uri: URI): Promise<void> {
+    try {
+      const languageService = await this.server.project.getLanguageService(
+        uri
+      );
+      // TSGo 打开文件时查找 tsconfig 并解析导入，需在工程的缓存写入完成后再打开
+      await this.cacheWrites.get(languageService);
+      await this.virtualDocuments.sync(languageService.context.language, uri);
+    } catch (error) {
+      logger.error("同步虚拟文档失败", error);
+    }
+  }
+
+  /**
+   * 将未打开的 .vue 文件的虚拟代码写入缓存目录（仅在启用 writeVirtualFiles 时）
+   */
+  private async materializeVirtualDocument(uri: URI): Promise<void> {
+    if (!this.virtualFileCache.isEnabled() || this.server.documents.get(uri)) {
+      return;
+    }
+    try {
+      const languageService = await this.server.project.getLanguageService(
+        uri
+      );
+      await this.virtualDocuments.materialize(
+        languageService.context.language,
+        uri
+      );
+    } catch (error) {
+      logger.error("写入虚拟文件缓存失败", error);
+    }
+  }
+
+  /**
+   * 写入工程内所有未打开的 .vue 文件的虚拟代码
+   */
+  private async materializeProject(
+    fileNames: Iterable<string>,
+    languageService: LanguageService
+  ): Promise<void> {
+    let count = 0;
+    for (const fileName of fileNames) {
+      const uri = URI.file(fileName);
+      if (fileName.endsWith(".vue") && !this.server.documents.get(uri)) {
+        await this.virtualDocuments.materialize(
+          languageService.context.language,
+          uri
+        );
+        count++;
+      }
+    }
+    logger.debug("已写入工程虚拟文件缓存", { count });
+  }
+
+  /**
+   * 创建按 tsconfig 划分的工程模型
+   * 每个 tsconfig 一个语言服务，未被任何 tsconfig 包含的文件使用推断工程
+   */
+  private createProject(): LanguageServerProject {
+    return {
+      setup: () => {},
+      getLanguageService: (uri) => this.getProjectLanguageService(uri),
+      getExistingLanguageServices: () => [
+        ...this.tsconfigProjects.values(),
+        ...(this.inferredProject ? [this.inferredProject] : []),
+      ],
+      reload: () => {
+        logger.log("重新加载所有工程");
+        this.disposeProjects();
+        this.resyncOpenDocuments();
+      },
+    };
+  }
+
+  /**
+   * 获取文件所属工程的语言服务
+   */
+  private getProjectLanguageService(uri: URI): LanguageService {
+    let tsconfig: string | undefined;
+    if (this.fileTsconfigs.has(uri)) {
+      tsconfig = this.fileTsconfigs.get(uri);
+    } else {
+      tsconfig = uri.scheme === "file" ? this.findTsConfig(uri.fsPath) : undefined;
+      this.fileTsconfigs.set(uri, tsconfig);
+    }
+
+    if (!tsconfig) {
+      if (!this.inferredProject) {
+        this.inferredProject = this.createProjectLanguageService(undefined);
+        this.onDidCreateProject(uri, undefined, this.inferredProject);
+      }
+      return this.inferredProject;
+    }
+
+    const tsconfigUri = URI.file(tsconfig);
+    let languageService = this.tsconfigProjects.get(tsconfigUri);
+    if (!languageService) {
+      languageService = this.createProjectLanguageService(tsconfig);
+      this.tsconfigProjects.set(tsconfigUri, languageService);
+      this.tsconfigExtends.set(
+        tsconfigUri,
+        (this.getParsedTsConfig(tsconfig)?.tsconfig.extendedFiles ?? []).map(
+          (file) => normalizeFileName(URI.file(file).fsPath)
+        )
+      );
+      this.onDidCreateProject(uri, tsconfig, languageService);
+    }
+    return languageService;
+  }
+
+  /**
+   * 工程创建后，启用磁盘缓存时为其生成缓存 tsconfig，并写入工程内所有 .vue 文件的虚拟代码
+   */
+  private onDidCreateProject(
+    uri: URI,
+    tsconfig: string | undefined,
+    languageService: LanguageService
+  ): void {
+    if (!this.virtualFileCache.isEnabled() || uri.scheme !== "file") {
+      return;
+    }
+
+    const parsed = tsconfig ? this.getParsedTsConfig(tsconfig) : undefined;
+    const written = this.virtualFileCache
+      .writeTsConfig(uri.fsPath, parsed?.tsconfig)
+      .then(() =>
+        this.materializeProject(parsed?.fileNames ?? [], languageService)
+      )
+      .catch((err) => logger.error("写入工程虚拟文件缓存失败", err));
+    this.cacheWrites.set(languageService, written);
+  }
+
+  /**
+   * 使变化的 tsconfig 对应的工程及 extends 它的工程失效，并让打开的文档重新关联工程
+   */
+  private invalidateProjects(tsconfigs: URI[]): void {
+    const changed = new Set(
+      tsconfigs.map((uri) => normalizeFileName(uri.fsPath))
+    );
+    const invalidated = [...this.tsconfigProjects.keys()].filter(
+      (uri) =>
+        changed.has(normalizeFileName(uri.fsPath)) ||
+        this.tsconfigExtends.get(uri)?.some((file) => changed.has(file))
+    );
+    logger.log("tsconfig 变化，重建工程", {
+      tsconfigs: [...changed],
+      projects: invalidated.map((uri) => uri.fsPath),
+    });
+
+    for (const uri of invalidated) {
+      this.tsconfigProjects.get(uri)?.dispose();
+      this.tsconfigProjects.delete(uri);
+      this.tsconfigExtends.delete(uri);
+    }
+    // include/exclude/references 的变化可能影响任意文件的归属
+    this.inferredProject?.dispose();
+    this.inferredProject = undefined;
+    this.fileTsconfigs.clear();
+    this.parsedTsconfigs.clear();
+
+    this.resyncOpenDocuments();
+  }
+
+  /**
+   * 释放所有工程
+   */
+  private disposeProjects(): void {
+    for (const languageService of this.tsconfigProjects.values()) {
+      languageService.dispose();
+    }
+    this.tsconfigProjects.clear();
+    this.tsconfigExtends.clear();
+    this.inferredProject?.dispose();
+    this.inferredProject = undefined;
+    this.fileTsconfigs.clear();
+    this.parsedTsconfigs.clear();
+  }
+
+  /**
+   * 用最新的工程重新生成所有打开文档的虚拟代码
+   */
+  private resyncOpenDocuments(): void {
+    for (const document of this.server.documents.all()) {
+      this.syncVirtualDocument(URI.parse(document.uri));
+    }
+    this.server.languageFeatures.requestRefresh(false);
+  }
+
   /**
    * 创建项目语言服务
    */
   private createProjectLanguageService(tsconfig: string | undefined) {
-    Logger.debug("创建项目语言服务", { tsconfig });
+    logger.debug("创建项目语言服务", { tsconfig });
 
     const commandLine =
       tsconfig && !ts.server.isInferredProjectName(tsconfig)
@@ -130,7 +631,7 @@ export class VueLanguageServer {
             ts,
             ts.sys,
             ts.sys.getCurrentDirectory(),
-            {}
+            { compilerOptions: ServerConfigManager.getInferredCompilerOptions() }
           );
 
     // 创建 Vue 语言插件
@@ -143,7 +644,11 @@ export class VueLanguageServer {
           ts,
           commandLine.options,
           commandLine.vueOptions,
-          (uri) => uri.fsPath.replace(/\\/g, "/")
+          // 启用磁盘缓存时按缓存路径生成代码，使其中的相对引用在缓存目录中有效
+          (uri) =>
+            normalizeFileName(
+              this.virtualFileCache.toCacheFileName(uri.fsPath)
+            )
         ),
       ],
       createUriMap(),
@@ -155,18 +660,26 @@ export class VueLanguageServer {
             document.getSnapshot(),
             document.languageId
           );
+          return;
+        }
+
+        // 未打开的 .vue 文件（如磁盘上发生变化的文件）从磁盘读取
+        const text =
+          uri.scheme === "file" && uri.fsPath.endsWith(".vue")
+            ? ts.sys.readFile(uri.fsPath)
+            : undefined;
+        if (text !== undefined) {
+          language.scripts.set(uri, ts.ScriptSnapshot.fromString(text), "vue");
         } else {
           language.scripts.delete(uri);
         }
       }
     );
 
-    // 创建语言服务插件，并集成 TSGo 后端
-    const languageServicePlugins = this.createCustomLanguageServicePlugins();
-
+    // 使用初始化时注册的语言服务插件（已集成 TSGo 后端）
     return createLanguageService(
       language,
-      languageServicePlugins,
+      this.server.languageServicePlugins,
       createLanguageServiceEnvironment(this.server, [
         ...this.server.workspaceFolders.all,
       ]),
@@ -179,11 +692,17 @@ export class VueLanguageServer {
    */
   private createCustomLanguageServicePlugins() {
     // 创建 TSGo 插件客户端，将 TypeScript 请求转发给 TSGo 后端
-    const tsgoPluginClient = createTsgoPluginClient(this.tsgoBackend);
+    const tsgoPluginClient = createTsgoPluginClient(
+      this.tsgoBackend,
+      this.virtualDocuments
+    );
 
-    const basePlugins = createVueLanguageServicePlugins(ts, tsgoPluginClient);
+    const basePlugins = [
+      ...createVueLanguageServicePlugins(ts, tsgoPluginClient),
+      createTsgoServicePlugin(tsgoPluginClient, this.virtualDocuments),
+    ];
     try {
-      Logger.debug("加载基础语言服务插件", {
+      logger.debug("加载基础语言服务插件", {
         plugins: basePlugins.map((p: any) => p.name || "<anonymous>"),
       });
     } catch {}
@@ -193,21 +712,85 @@ export class VueLanguageServer {
   }
 
   /**
-   * 查找 TypeScript 配置文件
+   * 查找文件所属的 TypeScript 配置文件
+   * 从文件所在目录向上查找 tsconfig.json / jsconfig.json，
+   * 只有 include/exclude/files 实际包含该文件的配置（或其 references）才算匹配
    */
   private findTsConfig(fileName: string): string | undefined {
-    // 简化实现：向上查找 tsconfig.json
-    let dir = require("path").dirname(fileName);
-    const fs = require("fs");
+    const normalized = normalizeFileName(fileName);
+    let dir = path.dirname(fileName);
 
-    while (dir !== require("path").dirname(dir)) {
-      const tsConfigPath = require("path").join(dir, "tsconfig.json");
-      if (fs.existsSync(tsConfigPath)) {
-        return tsConfigPath;
+    while (true) {
+      for (const name of ["tsconfig.json", "jsconfig.json"]) {
+        const tsConfigPath = path.join(dir, name);
+        if (fs.existsSync(tsConfigPath)) {
+          const match = this.findProjectIncludingFile(
+            tsConfigPath,
+            normalized,
+            new Set()
+          );
+          if (match) {
+            return match;
+          }
+        }
       }
-      dir = require("path").dirname(dir);
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
     }
 
     return undefined;
   }
+
+  /**
+   * 在 tsconfig 及其 references 中查找包含指定文件的配置
+   * 支持 tsconfig.json 只声明 references、由 tsconfig.app.json 等拆分配置包含源码的写法
+   */
+  private findProjectIncludingFile(
+    configFileName: string,
+    fileName: string,
+    seen: Set<string>
+  ): string | undefined {
+    if (seen.has(configFileName)) {
+      return undefined;
+    }
+    seen.add(configFileName);
+
+    const parsed = this.getParsedTsConfig(configFileName);
+    if (!parsed) {
+      return undefined;
+    }
+    if (parsed.fileNames.has(fileName)) {
+      return configFileName;
+    }
+    for (const reference of parsed.tsconfig.references) {
+      const match = this.findProjectIncludingFile(reference, fileName, seen);
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 解析并缓存 tsconfig
+   */
+  private getParsedTsConfig(configFileName: string) {
+    if (!this.parsedTsconfigs.has(configFileName)) {
+      try {
+        const tsconfig = parseVueTsConfig(configFileName);
+        this.parsedTsconfigs.set(configFileName, {
+          tsconfig,
+          fileNames: new Set(tsconfig.fileNames),
+        });
+      } catch (error) {
+        logger.error(`解析 ${configFileName} 失败`, error);
+        this.parsedTsconfigs.set(configFileName, undefined);
+      }
+    }
+    return this.parsedTsconfigs.get(configFileName);
+  }
 }
@@ -1,59 +1,258 @@
+import * as fs from "fs";
+
+/**
+ * 日志级别，按详细程度递增；trace 时才会输出文档全文
+ */
+export type LogLevel = "off" | "error" | "warn" | "info" | "debug" | "trace";
+
+const LOG_LEVELS: LogLevel[] = [
+  "off",
+  "error",
+  "warn",
+  "info",
+  "debug",
+  "trace",
+];
+const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+/** 日志文件超过该大小后轮转，保留 MAX_LOG_FILES 个历史文件（.1 为最新） */
+const MAX_LOG_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_LOG_FILES = 3;
+
+/** 非 trace 级别时省略的字段（文档全文、增量修改内容） */
+const REDACTED_KEYS = new Set(["text"]);
+
+/**
+ * 日志记录的上下文：所属组件与请求 ID 等
+ */
+export interface LogContext {
+  component?: string;
+  requestId?: number | string;
+  [key: string]: unknown;
+}
+
+/**
+ * 带上下文（组件、请求 ID）的日志记录器
+ */
+export class ScopedLogger {
+  constructor(private context: LogContext) {}
+
+  /**
+   * 附加上下文（如请求 ID）
+   */
+  with(context: LogContext): ScopedLogger {
+    return new ScopedLogger({ ...this.context, ...context });
+  }
+
+  log(message: string, ...args: any[]): void {
+    Logger.write("info", this.context, message, args);
+  }
+
+  error(message: string, error?: any): void {
+    Logger.write("error", this.context, message, [error]);
+  }
+
+  warn(message: string, ...args: any[]): void {
+    Logger.write("warn", this.context, message, args);
+  }
+
+  debug(message: string, data?: any): void {
+    Logger.write("debug", this.context, message, [data]);
+  }
+
+  trace(message: string, data?: any): void {
+    Logger.write("trace", this.context, message, [data]);
+  }
+}
+
 /**
  * 日志工具
+ * 按级别过滤后输出到 LSP 连接（Output 面板）或 stderr，
+ * 设置日志文件后同时以 JSON Lines 格式写入，文件按大小轮转
  */
 export class Logger {
   private static prefix = "[TSGO-DEBUG]";
   private static serverConnection: any | undefined;
+  private static level: LogLevel = DEFAULT_LOG_LEVEL;
+  private static logFile: RotatingLogFile | undefined;
+  private static root = new ScopedLogger({});
 
   static setServerConnection(connection: any) {
     this.serverConnection = connection;
   }
 
+  /**
+   * 设置日志级别，无效的值使用默认级别 info
+   */
+  static setLevel(level: string | undefined) {
+    this.level = LOG_LEVELS.includes(level as LogLevel)
+      ? (level as LogLevel)
+      : DEFAULT_LOG_LEVEL;
+  }
+
+  static getLevel(): LogLevel {
+    return this.level;
+  }
+
+  /**
+   * 指定级别的日志是否会输出，用于避免构造开销较大的日志数据
+   */
+  static isEnabled(level: LogLevel): boolean {
+    return (
+      level !== "off" &&
+      LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level)
+    );
+  }
+
+  /**
+   * 同时将日志写入文件（JSON Lines，按大小轮转）
+   */
+  static setLogFile(fileName: string) {
+    this.logFile = new RotatingLogFile(fileName);
+  }
+
+  /**
+   * 创建属于指定组件的日志记录器
+   */
+  static scope(component: string): ScopedLogger {
+    return new ScopedLogger({ component });
+  }
+
   static log(message: string, ...args: any[]): void {
-    if (this.serverConnection?.console?.log) {
-      try {
-        this.serverConnection.console.log(`${this.prefix} ${message}`);
-      } catch {}
-    } else {
-      // 使用 stderr，避免干扰 LSP stdio 通信
-      console.error(this.prefix, message, ...args);
-    }
+    this.root.log(message, ...args);
   }
 
   static error(message: string, error?: any): void {
-    if (this.serverConnection?.console?.error) {
-      try {
-        this.serverConnection.console.error(
-          `${this.prefix} ${message}: ${String(error ?? "")}`
-        );
-      } catch {}
-    } else {
-      console.error(this.prefix, message, error);
-    }
+    this.root.error(message, error);
   }
 
   static warn(message: string, ...args: any[]): void {
-    if (this.serverConnection?.console?.warn) {
+    this.root.warn(message, ...args);
+  }
+
+  static debug(message: string, data?: any): void {
+    this.root.debug(message, data);
+  }
+
+  static trace(message: string, data?: any): void {
+    this.root.trace(message, data);
+  }
+
+  /**
+   * 输出一条日志记录
+   */
+  static write(
+    level: Exclude<LogLevel, "off">,
+    context: LogContext,
+    message: string,
+    args: any[]
+  ): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const redact = this.level !== "trace";
+    const data = args
+      .filter((arg) => arg !== undefined)
+      .map((arg) => toLogData(arg, redact));
+    const payload = data.length > 1 ? data : data[0];
+
+    const component = context.component ? ` [${context.component}]` : "";
+    const requestId =
+      context.requestId !== undefined ? ` #${context.requestId}` : "";
+    const text =
+      `${this.prefix} [${level}]${component}${requestId} ${message}` +
+      (payload !== undefined ? ` ${safeJson(payload)}` : "");
+
+    const console = this.serverConnection?.console;
+    if (console) {
       try {
-        this.serverConnection.console.warn(`${this.prefix} ${message}`);
+        if (level === "error") {
+          console.error(text);
+        } else if (level === "warn") {
+          console.warn(text);
+        } else {
+          console.log(text);
+        }
       } catch {}
     } else {
-      console.error(this.prefix, message, ...args);
+      // 使用 stderr，避免干扰 LSP stdio 通信
+      globalThis.console.error(text);
     }
+
+    this.logFile?.write(
+      safeJson({
+        time: new Date().toISOString(),
+        level,
+        pid: process.pid,
+        ...context,
+        message,
+        ...(payload !== undefined ? { data: payload } : {}),
+      })
+    );
   }
+}
 
-  static debug(message: string, data?: any): void {
-    const text = data
-      ? `${this.prefix} ${message} ${safeJson(data)}`
-      : `${this.prefix} ${message}`;
-    if (this.serverConnection?.console?.log) {
+/**
+ * 按大小轮转的日志文件：vue-tsgo-lsp.log → .1 → .2 …
+ */
+class RotatingLogFile {
+  private size: number;
+
+  constructor(private fileName: string) {
+    try {
+      this.size = fs.statSync(fileName).size;
+    } catch {
+      this.size = 0;
+    }
+  }
+
+  write(line: string): void {
+    try {
+      if (this.size >= MAX_LOG_FILE_SIZE) {
+        this.rotate();
+      }
+      const content = `${line}\n`;
+      fs.appendFileSync(this.fileName, content);
+      this.size += Buffer.byteLength(content);
+    } catch {}
+  }
+
+  private rotate(): void {
+    for (let i = MAX_LOG_FILES - 1; i >= 1; i--) {
       try {
-        this.serverConnection.console.log(text);
+        fs.renameSync(`${this.fileName}.${i}`, `${this.fileName}.${i + 1}`);
       } catch {}
-    } else {
-      console.error(text);
     }
+    try {
+      fs.renameSync(this.fileName, `${this.fileName}.1`);
+    } catch {}
+    this.size = 0;
+  }
+}
+
+/**
+ * 转换为可序列化的日志数据：错误对象保留消息与堆栈，非 trace 级别时省略文档全文
+ */
+function toLogData(value: any, redact: boolean, depth = 0): any {
+  if (value instanceof Error) {
+    return { message: value.message, stack: value.stack };
+  }
+  if (!redact || depth > 8 || value === null || typeof value !== "object") {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toLogData(item, redact, depth + 1));
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] =
+      REDACTED_KEYS.has(key) && typeof item === "string"
+        ? `<省略 ${item.length} 个字符>`
+        : toLogData(item, redact, depth + 1);
   }
+  return result;
 }
 
 function safeJson(data: any): string {
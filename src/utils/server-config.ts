@@ -1,6 +1,33 @@
-import * as fs from "fs/promises";
+import * as os from "os";
 import * as path from "path";
 
+/**
+ * 默认的 TSGo 请求超时（毫秒），可通过 requestTimeouts 配置按方法覆盖
+ */
+const DEFAULT_REQUEST_TIMEOUTS: { [method: string]: number } = {
+  default: 30000,
+  initialize: 60000,
+  "textDocument/hover": 10000,
+  "textDocument/completion": 15000,
+  "completionItem/resolve": 10000,
+  "textDocument/diagnostic": 60000,
+};
+
+/**
+ * 内联提示配置，与 TypeScript 的 typescript.inlayHints.* 设置对应
+ */
+export interface InlayHintsConfig {
+  parameterNames: { enabled: "none" | "literals" | "all" };
+  variableTypes: { enabled: boolean };
+  functionLikeReturnTypes: { enabled: boolean };
+}
+
+const DEFAULT_INLAY_HINTS: InlayHintsConfig = {
+  parameterNames: { enabled: "none" },
+  variableTypes: { enabled: false },
+  functionLikeReturnTypes: { enabled: false },
+};
+
 /**
  * Server-side configuration manager
  * 不依赖 vscode 模块，适用于 language server 进程
@@ -16,6 +43,13 @@ export class ServerConfigManager {
     this.workspaceFolders = folders;
   }
 
+  /**
+   * 获取工作区文件夹
+   */
+  static getWorkspaceFolders(): string[] {
+    return this.workspaceFolders;
+  }
+
   /**
    * 设置配置项
    */
@@ -24,76 +58,123 @@ export class ServerConfigManager {
   }
 
   /**
-   * 获取 TSGo 可执行文件路径
+   * 合并更新配置项（workspace/didChangeConfiguration），返回值发生变化的配置名
    */
-  static async getTsgoPath(): Promise<string> {
-    // 首先检查用户配置
-    const configured = this.config.tsgoPath as string | undefined;
-
-    if (configured && configured.trim().length > 0) {
-      console.log("[TSGO-DEBUG] 使用配置的 tsgo 路径:", configured);
-      return configured;
-    }
-
-    // 在工作区中查找
-    console.log("[TSGO-DEBUG] 工作区文件夹数量:", this.workspaceFolders.length);
+  static updateConfig(config: { [key: string]: any }): string[] {
+    const changed = Object.keys(config).filter(
+      (key) => JSON.stringify(this.config[key]) !== JSON.stringify(config[key])
+    );
+    this.config = { ...this.config, ...config };
+    return changed;
+  }
 
-    // 优先查找所有工作区文件夹（包括子文件夹和父文件夹）
-    const searchPaths: string[] = [];
+  /**
+   * 获取配置的 TSGo 可执行文件路径，未配置时为空（由 selectTsgo 自动选择）
+   */
+  static getTsgoPath(): string | undefined {
+    const configured = this.config.tsgoPath as string | undefined;
+    return configured?.trim() || undefined;
+  }
 
-    // 添加所有工作区文件夹
-    searchPaths.push(...this.workspaceFolders);
+  /**
+   * 日志级别（vueTsgo.trace.server）：off | error | warn | info | debug | trace
+   */
+  static getLogLevel(): string | undefined {
+    return this.config.trace?.server;
+  }
 
-    // 添加工作区文件夹的父文件夹（在monorepo的情况下）
-    for (const folderPath of this.workspaceFolders) {
-      const parentPath = path.dirname(folderPath);
-      if (parentPath !== folderPath && !searchPaths.includes(parentPath)) {
-        searchPaths.push(parentPath);
-      }
+  /**
+   * TSGo 协议记录文件（vueTsgo.protocolTrace），未配置时为空
+   * 相对路径基于工作区文件夹（没有文件夹时为临时目录）；
+   * 多个工作区文件夹共用绝对路径时按文件夹名区分：trace.jsonl → trace.<文件夹名>.jsonl
+   */
+  static getProtocolTraceFile(folder?: string): string | undefined {
+    const fileName = (this.config.protocolTrace as string | undefined)?.trim();
+    if (!fileName) {
+      return undefined;
     }
-
-    for (const folderPath of searchPaths) {
-      const candidate = path.join(
-        folderPath,
-        "node_modules",
-        ".bin",
-        process.platform === "win32" ? "tsgo.cmd" : "tsgo"
-      );
-
-      try {
-        await fs.access(candidate);
-        console.log("[TSGO-DEBUG] 找到 tsgo:", candidate);
-        return candidate;
-      } catch {
-        // 静默跳过不存在的路径
-      }
+    if (!path.isAbsolute(fileName)) {
+      return path.resolve(folder ?? os.tmpdir(), fileName);
+    }
+    if (!folder || this.workspaceFolders.length <= 1) {
+      return fileName;
     }
+    const extension = path.extname(fileName);
+    const base = fileName.slice(0, fileName.length - extension.length);
+    return `${base}.${path.basename(folder)}${extension}`;
+  }
 
-    // 返回默认值，假设在 PATH 中
-    console.log("[TSGO-DEBUG] 使用默认 tsgo 命令");
-    return "tsgo";
+  /**
+   * 获取缓存目录配置
+   */
+  static getCacheDir(): string {
+    return (this.config.cacheDir as string) || ".vue-tsgo/cache";
   }
 
   /**
-   * 选择服务器工作目录
+   * 是否将虚拟文件写入缓存目录
    */
-  static pickServerCwd(): string | undefined {
-    if (this.workspaceFolders.length === 0) {
-      return undefined;
-    }
+  static isVirtualFileCacheEnabled(): boolean {
+    return this.config.writeVirtualFiles === true;
+  }
 
-    // 优先选择名为 playground 的文件夹
-    const prefer = this.workspaceFolders.find((folderPath) =>
-      /(?:^|\/)playground$/i.test(folderPath)
-    );
+  /**
+   * 获取推断工程（未被任何 tsconfig 包含的文件）使用的编译选项
+   */
+  static getInferredCompilerOptions(): { [key: string]: any } {
+    return this.config.inferredCompilerOptions ?? {};
+  }
 
-    return prefer || this.workspaceFolders[0];
+  /**
+   * 获取指定 LSP 方法的请求超时时间（毫秒）
+   */
+  static getRequestTimeout(method: string): number {
+    const timeouts = {
+      ...DEFAULT_REQUEST_TIMEOUTS,
+      ...(this.config.requestTimeouts ?? {}),
+    };
+    const timeout = timeouts[method] ?? timeouts.default;
+    return typeof timeout === "number" && timeout > 0
+      ? timeout
+      : DEFAULT_REQUEST_TIMEOUTS.default;
   }
 
   /**
-   * 获取缓存目录配置
+   * TSGo 空闲多久后停止进程（毫秒），0 表示不停止
    */
-  static getCacheDir(): string {
-    return (this.config.cacheDir as string) || ".vue-tsgo/cache";
+  static getIdleTimeout(): number {
+    const minutes = this.config.idleTimeout;
+    return typeof minutes === "number" && minutes > 0 ? minutes * 60000 : 0;
+  }
+
+  /**
+   * TSGo 进程内存（RSS）上限（字节），超过后重启进程，0 表示不限制
+   */
+  static getMemoryLimit(): number {
+    const megabytes = this.config.memoryLimit;
+    return typeof megabytes === "number" && megabytes > 0
+      ? megabytes * 1024 * 1024
+      : 0;
+  }
+
+  /**
+   * 获取内联提示配置（未配置的项使用默认值）
+   */
+  static getInlayHintsConfig(): InlayHintsConfig {
+    const inlayHints = this.config.inlayHints ?? {};
+    return {
+      parameterNames: {
+        ...DEFAULT_INLAY_HINTS.parameterNames,
+        ...inlayHints.parameterNames,
+      },
+      variableTypes: {
+        ...DEFAULT_INLAY_HINTS.variableTypes,
+        ...inlayHints.variableTypes,
+      },
+      functionLikeReturnTypes: {
+        ...DEFAULT_INLAY_HINTS.functionLikeReturnTypes,
+        ...inlayHints.functionLikeReturnTypes,
+      },
+    };
   }
 }
@@ -0,0 +1,87 @@
+import { createParsedCommandLine } from "@vue/language-core";
+import * as path from "path";
+import * as ts from "typescript";
+
+/**
+ * 解析后的 tsconfig，包含 Vue 编译选项和实际匹配的文件列表
+ */
+export interface VueTsConfig {
+  configFileName: string;
+  commandLine: ReturnType<typeof createParsedCommandLine>;
+  /** include/exclude/files 匹配到的文件（含 .vue 等扩展名） */
+  fileNames: string[];
+  /** references 引用的子工程配置文件 */
+  references: string[];
+  /** extends 链上的配置文件（修改后同样需要重建工程） */
+  extendedFiles: string[];
+}
+
+/**
+ * 解析 tsconfig，文件匹配时会考虑 vueCompilerOptions.extensions
+ */
+export function parseVueTsConfig(configFileName: string): VueTsConfig {
+  const commandLine = createParsedCommandLine(ts, ts.sys, configFileName);
+  const config = ts.readJsonConfigFile(configFileName, ts.sys.readFile);
+  const parsed = ts.parseJsonSourceFileConfigFileContent(
+    config,
+    ts.sys,
+    path.dirname(configFileName),
+    {},
+    configFileName,
+    undefined,
+    commandLine.vueOptions.extensions.map((extension) => ({
+      extension: extension.slice(1),
+      isMixedContent: true,
+      scriptKind: ts.ScriptKind.Deferred,
+    }))
+  );
+
+  return {
+    configFileName,
+    commandLine,
+    fileNames: parsed.fileNames.map(normalizeFileName),
+    references: (parsed.projectReferences ?? []).map((reference) =>
+      resolveReferencePath(reference.path)
+    ),
+    extendedFiles: (config.extendedSourceFiles ?? []).map(normalizeFileName),
+  };
+}
+
+/**
+ * 读取 tsconfig 的 references（不解析文件列表）
+ */
+export function readProjectReferences(configFileName: string): string[] {
+  const config = ts.readConfigFile(configFileName, ts.sys.readFile);
+  if (config.error) {
+    throw new Error(
+      ts.flattenDiagnosticMessageText(config.error.messageText, "\n")
+    );
+  }
+
+  return (config.config?.references ?? []).map(
+    (reference: { path: string }) =>
+      resolveReferencePath(
+        path.resolve(path.dirname(configFileName), reference.path)
+      )
+  );
+}
+
+/**
+ * references 可以指向目录或具体的配置文件
+ */
+function resolveReferencePath(referencePath: string): string {
+  return referencePath.endsWith(".json")
+    ? referencePath
+    : path.join(referencePath, "tsconfig.json");
+}
+
+export function normalizeFileName(fileName: string): string {
+  return fileName.replace(/\\/g, "/");
+}
+
+/**
+ * 判断文件名是否为 tsconfig / jsconfig
+ */
+export function isTsConfigFileName(fileName: string): boolean {
+  return /(?:^|[\\/])[tj]sconfig(?:\.[^\\/]*)?\.json$/.test(fileName);
+}
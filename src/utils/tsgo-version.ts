@@ -0,0 +1,240 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Logger } from "./logger";
+import { ServerConfigManager } from "./server-config";
+
+const logger = Logger.scope("tsgo-version");
+
+/**
+ * 支持的 TSGo 版本范围（包含 min，不包含 max）
+ * TSGo 预览版每周发布，LSP 行为随时可能变化，范围以插件内置的版本为准
+ */
+export const SUPPORTED_TSGO_VERSIONS = {
+  min: "7.0.0-dev.20250801",
+  max: "7.0.0-dev.20250901",
+};
+
+const TSGO_BIN = process.platform === "win32" ? "tsgo.cmd" : "tsgo";
+
+/**
+ * 选中的 TSGo 可执行文件及选择原因
+ */
+export interface TsgoSelection {
+  path: string;
+  /** tsgo --version 的输出（如 7.0.0-dev.20250808.1），读取失败时为空 */
+  version?: string;
+  reason: string;
+}
+
+/** 版本读取缓存（路径 -> 文件修改时间与版本），避免每次启动都执行 --version */
+const versionCache = new Map<
+  string,
+  { mtimeMs: number; version: string | undefined }
+>();
+
+/**
+ * 选择 TSGo 可执行文件
+ * 1. 配置了 tsgoPath 时总是使用它（版本不兼容时给出警告）
+ * 2. 工作区（及其父目录）node_modules 中的 tsgo，版本兼容时使用
+ * 3. 插件内置的 tsgo
+ * 4. 以上都不可用时使用工作区中的 tsgo 或 PATH 中的 tsgo
+ * @param folder 优先在该工作区文件夹中查找
+ */
+export async function selectTsgo(folder?: string): Promise<TsgoSelection> {
+  const configured = ServerConfigManager.getTsgoPath();
+  if (configured) {
+    const version = await readTsgoVersion(configured);
+    return {
+      path: configured,
+      version,
+      reason: isSupportedTsgoVersion(version)
+        ? "使用配置的 tsgoPath"
+        : `使用配置的 tsgoPath，但${describeUnsupported(version)}`,
+    };
+  }
+
+  const local = await findWorkspaceTsgo(folder);
+  const localVersion = local ? await readTsgoVersion(local) : undefined;
+  if (local && isSupportedTsgoVersion(localVersion)) {
+    return {
+      path: local,
+      version: localVersion,
+      reason: "工作区中的 tsgo 版本兼容",
+    };
+  }
+
+  const bundled = await findBundledTsgo();
+  if (bundled) {
+    return {
+      path: bundled,
+      version: await readTsgoVersion(bundled),
+      reason: local
+        ? `工作区中的 tsgo ${describeUnsupported(localVersion)}，使用内置版本`
+        : "工作区中未找到 tsgo，使用内置版本",
+    };
+  }
+
+  if (local) {
+    return {
+      path: local,
+      version: localVersion,
+      reason: `未找到内置的 tsgo，使用工作区中的 tsgo，但${describeUnsupported(
+        localVersion
+      )}`,
+    };
+  }
+
+  const version = await readTsgoVersion("tsgo");
+  return {
+    path: "tsgo",
+    version,
+    reason: isSupportedTsgoVersion(version)
+      ? "使用 PATH 中的 tsgo"
+      : `使用 PATH 中的 tsgo，但${describeUnsupported(version)}`,
+  };
+}
+
+/**
+ * 版本是否在支持范围内
+ */
+export function isSupportedTsgoVersion(version: string | undefined): boolean {
+  return (
+    !!version &&
+    compareVersions(version, SUPPORTED_TSGO_VERSIONS.min) >= 0 &&
+    compareVersions(version, SUPPORTED_TSGO_VERSIONS.max) < 0
+  );
+}
+
+/**
+ * 执行 tsgo --version 读取版本号
+ */
+export async function readTsgoVersion(
+  tsgoPath: string
+): Promise<string | undefined> {
+  let mtimeMs = -1;
+  try {
+    mtimeMs = (await fs.stat(tsgoPath)).mtimeMs;
+  } catch {
+    // PATH 中的命令无法 stat，不缓存
+  }
+  const cached = versionCache.get(tsgoPath);
+  if (cached && mtimeMs !== -1 && cached.mtimeMs === mtimeMs) {
+    return cached.version;
+  }
+
+  const version = await new Promise<string | undefined>((resolve) => {
+    execFile(tsgoPath, ["--version"], { timeout: 5000 }, (error, stdout) => {
+      if (error) {
+        logger.debug("读取 TSGo 版本失败", error.message);
+        resolve(undefined);
+        return;
+      }
+      const match = /Version\s+(\S+)/.exec(stdout);
+      resolve(match?.[1] ?? (stdout.trim() || undefined));
+    });
+  });
+  if (mtimeMs !== -1) {
+    versionCache.set(tsgoPath, { mtimeMs, version });
+  }
+  return version;
+}
+
+/**
+ * 在工作区文件夹及其父文件夹（monorepo）的 node_modules/.bin 中查找 tsgo
+ */
+async function findWorkspaceTsgo(folder?: string): Promise<string | undefined> {
+  const workspaceFolders = ServerConfigManager.getWorkspaceFolders();
+  const folders = folder
+    ? [folder, ...workspaceFolders.filter((f) => f !== folder)]
+    : workspaceFolders;
+
+  const searchPaths = [...folders];
+  for (const folderPath of folders) {
+    const parentPath = path.dirname(folderPath);
+    if (parentPath !== folderPath && !searchPaths.includes(parentPath)) {
+      searchPaths.push(parentPath);
+    }
+  }
+
+  for (const folderPath of searchPaths) {
+    const candidate = path.join(folderPath, "node_modules", ".bin", TSGO_BIN);
+    if (await exists(candidate)) {
+      logger.debug("找到 tsgo", candidate);
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 插件自带的 tsgo（@typescript/native-preview 依赖）
+ * 构建产物位于 dist/<入口目录>/ 下，向上两级为插件根目录
+ */
+async function findBundledTsgo(): Promise<string | undefined> {
+  const candidate = path.resolve(
+    __dirname,
+    "..",
+    "..",
+    "node_modules",
+    ".bin",
+    TSGO_BIN
+  );
+  return (await exists(candidate)) ? candidate : undefined;
+}
+
+function describeUnsupported(version: string | undefined): string {
+  const range = `${SUPPORTED_TSGO_VERSIONS.min} ~ ${SUPPORTED_TSGO_VERSIONS.max}`;
+  return version
+    ? `版本 ${version} 不在支持范围（${range}）内`
+    : `无法读取版本（支持范围 ${range}）`;
+}
+
+/**
+ * 比较 semver 版本号（含 -dev.20250808.1 等预发布部分）
+ */
+function compareVersions(a: string, b: string): number {
+  const [coreA, preA] = splitVersion(a);
+  const [coreB, preB] = splitVersion(b);
+
+  for (let i = 0; i < Math.max(coreA.length, coreB.length); i++) {
+    const diff = (Number(coreA[i]) || 0) - (Number(coreB[i]) || 0);
+    if (diff) {
+      return diff;
+    }
+  }
+
+  // 没有预发布部分的正式版大于任何预发布版
+  if (!preA.length || !preB.length) {
+    return preB.length - preA.length;
+  }
+  for (let i = 0; i < Math.max(preA.length, preB.length); i++) {
+    if (preA[i] === undefined || preB[i] === undefined) {
+      return preA[i] === undefined ? -1 : 1;
+    }
+    const numeric = /^\d+$/.test(preA[i]) && /^\d+$/.test(preB[i]);
+    const diff = numeric
+      ? Number(preA[i]) - Number(preB[i])
+      : preA[i].localeCompare(preB[i]);
+    if (diff) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function splitVersion(version: string): [string[], string[]] {
+  const index = version.indexOf("-");
+  const core = index === -1 ? version : version.slice(0, index);
+  const prerelease = index === -1 ? "" : version.slice(index + 1);
+  return [core.split("."), prerelease ? prerelease.split(".") : []];
+}
+
+async function exists(fileName: string): Promise<boolean> {
+  try {
+    await fs.access(fileName);
+    return true;
+  } catch {
+    return false;
+  }
+}
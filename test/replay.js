@@ -0,0 +1,47 @@
+// 回放 test/traces 中的协议记录，任一记录与回放结果不一致时以非零退出码结束
+// 记录中的路径是录制时的绝对路径，回放前替换为 test/fixtures 中同名工程的路径
+// 用法：node test/replay.js（需要先执行 tsup 构建 dist）
+const { spawnSync } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const cli = path.join(__dirname, "../dist/cli/index.js");
+const tracesDir = path.join(__dirname, "traces");
+const fixturesDir = path.join(__dirname, "fixtures");
+
+function relocate(traceFile) {
+  const text = fs.readFileSync(traceFile, "utf8");
+  const session = JSON.parse(text.slice(0, text.indexOf("\n")));
+  if (session.type !== "session" || !session.folder) {
+    throw new Error(`${traceFile} 缺少 session 记录`);
+  }
+  const folder = path.join(fixturesDir, path.basename(session.folder));
+  if (!fs.existsSync(folder)) {
+    throw new Error(`${traceFile} 对应的工程不存在: ${folder}`);
+  }
+
+  const output = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "vue-tsgo-replay-")),
+    path.basename(traceFile)
+  );
+  fs.writeFileSync(output, text.split(session.folder).join(folder));
+  return output;
+}
+
+let failed = false;
+for (const name of fs.readdirSync(tracesDir).sort()) {
+  if (!name.endsWith(".jsonl")) {
+    continue;
+  }
+  const traceFile = relocate(path.join(tracesDir, name));
+  process.stdout.write(`${name}\n`);
+  const result = spawnSync(process.execPath, [cli, "replay", traceFile], {
+    stdio: "inherit",
+  });
+  fs.rmSync(path.dirname(traceFile), { recursive: true, force: true });
+  if (result.status !== 0) {
+    failed = true;
+  }
+}
+process.exit(failed ? 1 : 0);
@@ -4,6 +4,8 @@ export default defineConfig({
   entry: {
     extension: "src/extension.ts",
     "language-server/server": "src/language-server/server.ts",
+    "cli/index": "src/cli/index.ts",
+    "cli/fake-tsgo": "src/cli/fake-tsgo.ts",
   },
   format: ["cjs"],
   target: "node18",